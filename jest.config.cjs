@@ -0,0 +1,14 @@
+module.exports = {
+    preset: "ts-jest",
+    testEnvironment: "node",
+    roots: ["<rootDir>/test"],
+    // sources import some siblings with a '.js' extension, for ES module output
+    moduleNameMapper: { "^(\\.{1,2}/.*)\\.js$": "$1" },
+    globals: {
+        "ts-jest": {
+            // jest runs CommonJS, whereas the build emits ES modules
+            tsconfig: { module: "commonjs" },
+        },
+    },
+    verbose: true,
+};
@@ -1,5 +0,0 @@
-module.exports = {
-    moduleFileExtensions: ["js"],
-    moduleDirectories: ["node_modules", "build/src", "build/test"],
-    verbose: true,
-};
@@ -0,0 +1,288 @@
+import _ from "lodash";
+import moment from "moment";
+import { AppError, AppErrorOptions } from "./errors";
+import { getLogger } from "./logger";
+
+const log = getLogger("converters");
+
+/**
+ * Converts values for a given property 'valueType' between user input, display text and storage
+ */
+export interface ValueConverter<T = any> {
+    /**
+     * Convert user input (usually a string, but can already be the typed value) into the typed value. Empty input
+     * gives undefined. Throws a ConversionError if the input can't be converted
+     */
+    parse(input: any): T | undefined;
+    /**
+     * Format the typed value for display, e.g. in a text input
+     */
+    format(value: T | undefined): string;
+    /**
+     * Convert the typed value into a string suitable for storage. Undefined if the value can't or shouldn't be stored
+     */
+    serialize(value: T | undefined): string | undefined;
+    /**
+     * Convert a stored string back into the typed value
+     */
+    deserialize(stored: string | undefined): T | undefined;
+}
+
+/**
+ * Thrown when input can't be converted into the required type
+ */
+export class ConversionError extends AppError {
+    constructor(opts: AppErrorOptions = {}, ctorFunc?: Function) {
+        super(opts, ctorFunc || ConversionError);
+    }
+}
+
+const converters: { [valueType: string]: ValueConverter } = {};
+
+/**
+ * Register the converter for the given value type. Generic types (e.g. 'List<number>') are built from the item
+ * converter so only need registering if they need custom handling
+ *
+ * @param valueType the 'IL model' type, e.g. 'number', 'date', 'string:email'
+ * @param converter the converter
+ */
+export function registerConverter(valueType: string, converter: ValueConverter) {
+    converters[valueType] = converter;
+}
+
+/**
+ * Return the converter for the given value type. Tries an exact match first, then generic list/set types, then the
+ * type prefix (e.g. 'string:email' uses 'string'). Falls back to the identity converter, so values of unknown
+ * types are held as is
+ *
+ * @param valueType the type to convert
+ */
+export function getConverter<T = any>(valueType: string): ValueConverter<T> {
+    const exact = converters[valueType];
+    if (exact) {
+        return exact;
+    }
+    const generic = /^(List|Set|Array)<(.+)>$/.exec(valueType);
+    if (generic) {
+        const converter = listConverter(getConverter(generic[2]), generic[1] == "Set");
+        converters[valueType] = converter;
+        return converter as ValueConverter<any>;
+    }
+    const prefix = valueType.split(":")[0];
+    if (converters[prefix]) {
+        return converters[prefix];
+    }
+    log.trace(`no converter for '${valueType}', using identity converter`);
+    return identityConverter;
+}
+
+/**
+ * Parse the given input, returning undefined instead of throwing if it can't be converted
+ */
+export function tryParse<T = any>(valueType: string, input: any): T | undefined {
+    try {
+        return getConverter<T>(valueType).parse(input);
+    } catch (err) {
+        return undefined;
+    }
+}
+
+function isEmpty(input: any): boolean {
+    return input == undefined || (typeof input === "string" && input.trim().length == 0);
+}
+
+function conversionError(type: string, input: any): ConversionError {
+    return new ConversionError({
+        key: `CONVERT_${type.toUpperCase()}`,
+        message: `Can't convert '${input}' to a ${type}`,
+        data: { type, input },
+        captureStack: false,
+    });
+}
+
+/**
+ * Values which are held as is, and stored as their string form
+ */
+export const stringConverter: ValueConverter<string> = {
+    parse: (input) => (input == undefined ? undefined : `${input}`),
+    format: (value) => (value == undefined ? "" : value),
+    serialize: (value) => value,
+    deserialize: (stored) => stored,
+};
+
+/**
+ * Values of types without a registered converter, which are held as is and stored as JSON
+ */
+export const identityConverter: ValueConverter<any> = {
+    parse: (input) => (input == undefined ? undefined : input),
+    format: (value) => (value == undefined ? "" : typeof value === "string" ? value : JSON.stringify(value)),
+    serialize: (value) => (value == undefined ? undefined : JSON.stringify(value)),
+    deserialize: (stored) => {
+        if (stored == undefined) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(stored);
+        } catch (err) {
+            // not stored by us, so use as is
+            return stored;
+        }
+    },
+};
+
+export const numberConverter: ValueConverter<number> = {
+    parse: (input) => {
+        if (isEmpty(input)) {
+            return undefined;
+        }
+        const num = typeof input === "number" ? input : Number(`${input}`.trim());
+        if (isNaN(num)) {
+            throw conversionError("number", input);
+        }
+        return num;
+    },
+    format: (value) => (value == undefined ? "" : `${value}`),
+    serialize: (value) => (value == undefined ? undefined : `${value}`),
+    deserialize: (stored) => numberConverter.parse(stored),
+};
+
+/**
+ * Whole numbers, e.g. JSON Schema 'integer' values
+ */
+export const integerConverter: ValueConverter<number> = {
+    parse: (input) => {
+        const num = numberConverter.parse(input);
+        if (num != undefined && Math.floor(num) !== num) {
+            throw conversionError("integer", input);
+        }
+        return num;
+    },
+    format: numberConverter.format,
+    serialize: numberConverter.serialize,
+    deserialize: (stored) => integerConverter.parse(stored),
+};
+
+const trueValues = ["true", "yes", "y", "on", "1"];
+const falseValues = ["false", "no", "n", "off", "0"];
+
+export const booleanConverter: ValueConverter<boolean> = {
+    parse: (input) => {
+        if (isEmpty(input)) {
+            return undefined;
+        }
+        if (typeof input === "boolean") {
+            return input;
+        }
+        const s = `${input}`.trim().toLowerCase();
+        if (trueValues.indexOf(s) != -1) {
+            return true;
+        }
+        if (falseValues.indexOf(s) != -1) {
+            return false;
+        }
+        throw conversionError("boolean", input);
+    },
+    format: (value) => (value == undefined ? "" : `${value}`),
+    serialize: (value) => (value == undefined ? undefined : `${value}`),
+    deserialize: (stored) => booleanConverter.parse(stored),
+};
+
+/**
+ * Dates are held as Date objects. Input strings are expected in ISO 8601 format
+ */
+export const dateConverter: ValueConverter<Date> = {
+    parse: (input) => {
+        if (isEmpty(input)) {
+            return undefined;
+        }
+        const m = typeof input === "string" ? moment(input.trim(), moment.ISO_8601, true) : moment(input);
+        if (!m.isValid()) {
+            throw conversionError("date", input);
+        }
+        return m.toDate();
+    },
+    format: (value) => (value == undefined ? "" : moment(value).format("YYYY-MM-DD")),
+    serialize: (value) => (value == undefined ? undefined : moment(value).toISOString()),
+    deserialize: (stored) => dateConverter.parse(stored),
+};
+
+/**
+ * Dates with a time of day, held as Date objects. Formatted as a local 'YYYY-MM-DDTHH:mm' (as used by datetime
+ * inputs), which parses back as ISO 8601
+ */
+export const dateTimeConverter: ValueConverter<Date> = {
+    parse: dateConverter.parse,
+    format: (value) => (value == undefined ? "" : moment(value).format("YYYY-MM-DDTHH:mm")),
+    serialize: dateConverter.serialize,
+    deserialize: (stored) => dateTimeConverter.parse(stored),
+};
+
+/**
+ * Files are passed through as is, and are never stored
+ */
+export const fileConverter: ValueConverter<any> = {
+    parse: (input) => (input == undefined ? undefined : input),
+    format: (value) => (value == undefined ? "" : value.name || ""),
+    serialize: () => undefined,
+    deserialize: () => undefined,
+};
+
+/**
+ * Lists are held as arrays (sets as arrays without duplicates, so they play nicely with vue). Strings are parsed
+ * as a JSON array, or else split on commas
+ *
+ * @param itemConverter converter for each item
+ * @param unique if duplicates should be removed
+ */
+export function listConverter<T>(itemConverter: ValueConverter<T>, unique = false): ValueConverter<T[]> {
+    const parseItems = (items: any[]): T[] => {
+        const parsed = items.map((item) => itemConverter.parse(item)).filter((item) => item != undefined) as T[];
+        return unique ? _.uniqWith(parsed, _.isEqual) : parsed;
+    };
+    return {
+        parse: (input) => {
+            if (input == undefined) {
+                return undefined;
+            }
+            if (Array.isArray(input)) {
+                return parseItems(input);
+            }
+            if (input instanceof Set) {
+                return parseItems(Array.from(input.values()));
+            }
+            const s = `${input}`.trim();
+            if (s.length == 0) {
+                return [];
+            }
+            if (s[0] == "[") {
+                try {
+                    return parseItems(JSON.parse(s));
+                } catch (err) {
+                    throw conversionError("list", input);
+                }
+            }
+            return parseItems(s.split(","));
+        },
+        format: (value) => (value == undefined ? "" : value.map((item) => itemConverter.format(item)).join(", ")),
+        serialize: (value) =>
+            value == undefined ? undefined : JSON.stringify(value.map((item) => itemConverter.serialize(item))),
+        deserialize: (stored) => {
+            if (stored == undefined) {
+                return undefined;
+            }
+            const items: Array<string | undefined> = JSON.parse(stored);
+            return items.map((item) => itemConverter.deserialize(item)).filter((item) => item != undefined) as T[];
+        },
+    };
+}
+
+registerConverter("string", stringConverter);
+registerConverter("enum", stringConverter);
+registerConverter("number", numberConverter);
+registerConverter("number:integer", integerConverter);
+registerConverter("boolean", booleanConverter);
+registerConverter("date", dateConverter);
+registerConverter("date:time", dateTimeConverter);
+registerConverter("file", fileConverter);
+registerConverter("List", listConverter(stringConverter));
+registerConverter("Array", listConverter(stringConverter));
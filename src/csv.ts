@@ -0,0 +1,170 @@
+import _ from "lodash";
+import * as converters from "./converters";
+
+/**
+ * A parsed CSV row, keyed by column name
+ */
+export type CsvRow = { [column: string]: any };
+
+export interface CsvColumn {
+    /**
+     * The column (row key) name. Defaults to the header text
+     */
+    name?: string;
+    /**
+     * The value type to convert the cells to, e.g. 'number' or 'date'. See converters. Defaults to 'string'
+     */
+    type?: string;
+}
+
+export interface CsvParseOptions {
+    /**
+     * Defaults to ','
+     */
+    delimiter?: string;
+    /**
+     * If the first record holds the column headers. Defaults to true. Without headers the columns are named by
+     * their index ('0', '1', ...)
+     */
+    header?: boolean;
+    /**
+     * Map headers (or column indexes) to column names and types. A string is just the column name
+     */
+    columns?: { [header: string]: string | CsvColumn };
+    /**
+     * Skip blank lines. Defaults to true
+     */
+    skipEmptyLines?: boolean;
+}
+
+/**
+ * A cell which couldn't be converted to its column type. The raw text is kept in the row
+ */
+export interface CsvCellError {
+    /**
+     * Index of the data row (excluding the header)
+     */
+    row: number;
+    column: string;
+    type: string;
+    actual: string;
+    message: string;
+}
+
+export interface CsvParseResult {
+    /**
+     * The header text, as in the file
+     */
+    headers: string[];
+    /**
+     * The column names each cell is stored under, after any mapping
+     */
+    columns: string[];
+    rows: CsvRow[];
+    errors: CsvCellError[];
+}
+
+/**
+ * Split CSV text into records of raw cell text. Handles quoted cells containing delimiters, newlines and
+ * doubled quotes (RFC 4180)
+ *
+ * @param text the CSV text
+ * @param delimiter the cell delimiter
+ */
+export function parseCsvRecords(text: string, delimiter = ","): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let cell = "";
+    let quoted = false;
+    // skip any byte order mark
+    let pos = text.charCodeAt(0) == 0xfeff ? 1 : 0;
+    while (pos < text.length) {
+        const c = text[pos];
+        if (quoted) {
+            if (c == '"') {
+                if (text[pos + 1] == '"') {
+                    cell += '"';
+                    pos++;
+                } else {
+                    quoted = false;
+                }
+            } else {
+                cell += c;
+            }
+        } else if (c == '"' && cell.length == 0) {
+            quoted = true;
+        } else if (c == delimiter) {
+            record.push(cell);
+            cell = "";
+        } else if (c == "\n" || c == "\r") {
+            record.push(cell);
+            records.push(record);
+            record = [];
+            cell = "";
+            if (c == "\r" && text[pos + 1] == "\n") {
+                pos++;
+            }
+        } else {
+            cell += c;
+        }
+        pos++;
+    }
+    if (cell.length > 0 || record.length > 0) {
+        record.push(cell);
+        records.push(record);
+    }
+    return records;
+}
+
+/**
+ * Parse CSV text into typed rows. Cells are converted to their column type, any which can't be are left as the
+ * raw text and reported in 'errors'
+ *
+ * @param text the CSV text
+ * @param opts how to parse and map the columns
+ */
+export function parseCsv(text: string, opts: CsvParseOptions = {}): CsvParseResult {
+    const skipEmpty = opts.skipEmptyLines != false;
+    let records = parseCsvRecords(text, opts.delimiter || ",");
+    if (skipEmpty) {
+        records = records.filter((record) => !(record.length == 1 && record[0].trim().length == 0));
+    }
+    const hasHeader = opts.header != false;
+    const headers = hasHeader && records.length > 0 ? records[0].map((h) => h.trim()) : [];
+    const dataRecords = hasHeader ? records.slice(1) : records;
+    const width = hasHeader ? headers.length : _.max(dataRecords.map((r) => r.length)) || 0;
+    const keys = hasHeader ? headers : _.range(width).map((i) => `${i}`);
+
+    const mappings = keys.map((key) => toColumn(key, (opts.columns || {})[key]));
+    const errors: CsvCellError[] = [];
+    const rows = dataRecords.map((record, rowIndex) => {
+        const row: CsvRow = {};
+        mappings.forEach((column, i) => {
+            const raw = record[i];
+            try {
+                row[column.name] = converters.getConverter(column.type).parse(raw);
+            } catch (err) {
+                if (!(err instanceof converters.ConversionError)) {
+                    throw err;
+                }
+                row[column.name] = raw;
+                errors.push({
+                    row: rowIndex,
+                    column: column.name,
+                    type: column.type,
+                    actual: raw,
+                    message: err.message,
+                });
+            }
+        });
+        return row;
+    });
+    return { headers, columns: mappings.map((c) => c.name), rows, errors };
+}
+
+function toColumn(key: string, mapping: string | CsvColumn | undefined): Required<CsvColumn> {
+    if (typeof mapping === "string") {
+        return { name: mapping, type: "string" };
+    }
+    return { name: (mapping && mapping.name) || key, type: (mapping && mapping.type) || "string" };
+}
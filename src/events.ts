@@ -1,6 +1,7 @@
 import _ from "lodash";
 import { getLogger } from "./logger";
 import * as ee2 from "eventemitter2";
+import { AppError, AppErrorOptions } from "./errors";
 
 type VueComponent = { $once: Function };
 
@@ -83,6 +84,13 @@ export class EventSubscription {
         return this._id;
     }
 
+    /**
+     * The name of the event listened to
+     */
+    get eventName(): string {
+        return this.eventDef.NAME;
+    }
+
     /**
      * Remove the event listener bound to this subscription
      */
@@ -119,16 +127,114 @@ export class EventSubscription {
     }
 }
 
+const subscriptionGroupLog = getLogger("events.SubscriptionGroup");
+
+/**
+ * Tracks subscriptions so they can all be cancelled together, e.g. when the object which created them is disposed
+ */
+export class SubscriptionGroup {
+    private readonly _subscriptions: EventSubscription[] = [];
+    private _disposed = false;
+
+    /**
+     * @param name used when logging, e.g. the owning form name
+     */
+    constructor(readonly name: string) {}
+
+    /**
+     * If the group has been disposed. Any subscription added afterwards is cancelled straight away
+     */
+    get disposed() {
+        return this._disposed;
+    }
+
+    /**
+     * The subscriptions which haven't been cancelled yet
+     */
+    get live(): EventSubscription[] {
+        return this._subscriptions.filter((subscription) => !subscription.cancelled);
+    }
+
+    /**
+     * Track the given subscription. Cancelled subscriptions are dropped as others are added
+     */
+    add(subscription: EventSubscription): EventSubscription {
+        if (this._disposed) {
+            subscriptionGroupLog.warn(
+                `subscription '${subscription.id}' added to disposed group '${this.name}', cancelling`
+            );
+            subscription.cancel();
+            return subscription;
+        }
+        _.remove(this._subscriptions, (s) => s.cancelled);
+        this._subscriptions.push(subscription);
+        return subscription;
+    }
+
+    /**
+     * Subscribe to the given event, and track the subscription
+     */
+    subscribe<TEventArgs>(eventDef: EventDef<TEventArgs>, listener: EventListener<TEventArgs>): EventSubscription {
+        return this.add(eventDef.subscribe(listener));
+    }
+
+    /**
+     * Cancel all the tracked subscriptions. The group can keep being used
+     */
+    cancelAll() {
+        this._subscriptions.forEach((subscription) => subscription.cancel());
+        this._subscriptions.length = 0;
+    }
+
+    /**
+     * Cancel all the tracked subscriptions, and any added later
+     */
+    dispose() {
+        if (subscriptionGroupLog.isTraceEnabled()) {
+            subscriptionGroupLog.trace(`dispose group '${this.name}'`, this.live.length);
+        }
+        this.cancelAll();
+        this._disposed = true;
+    }
+}
+
+/**
+ * The listeners still registered on the given emitter, as counts by event name. Useful to find leaks
+ */
+export function liveListeners(emitter: ee2.EventEmitter2): { [event: string]: number } {
+    const counts: { [event: string]: number } = {};
+    emitter.eventNames().forEach((name) => {
+        const count = emitter.listenerCount(name as string);
+        if (count > 0) {
+            counts[`${name as string}`] = count;
+        }
+    });
+    return counts;
+}
+
 type CancelFn = (reason: string) => undefined;
 type EventWaitForFilter<T> = (event: T) => boolean;
 type EventWaitForOptions<T> = Partial<Omit<ee2.WaitForOptions, "filter">> & {
     filter?: EventWaitForFilter<T>;
 };
 
+/**
+ * Thrown (rejected) when a cancelable promise is cancelled
+ */
+export class CancelledError extends AppError {
+    constructor(opts: AppErrorOptions = {}, ctorFunc?: Function) {
+        super(opts, ctorFunc || CancelledError);
+    }
+}
+
+export function isCancelledError(err: any): err is CancelledError {
+    return err instanceof CancelledError;
+}
+
 /**
  * Preserves the ability to chain the promise and still cancel it at the end of the chain
  */
-class EventPromise<T> implements ee2.CancelablePromise<T> {
+export class EventPromise<T> implements ee2.CancelablePromise<T> {
     constructor(private readonly cancelFn: CancelFn, private readonly delegate: Promise<T>) {}
 
     static from<T>(promise: ee2.CancelablePromise<T>): EventPromise<T> {
@@ -137,6 +243,43 @@ class EventPromise<T> implements ee2.CancelablePromise<T> {
         }, promise);
     }
 
+    /**
+     * Make a plain promise cancelable. Once cancelled the returned promise rejects with a CancelledError,
+     * whatever the outcome of the wrapped promise
+     *
+     * @param promise the promise to wrap
+     * @param onCancel called once when cancelled, to allow any underlying work to be stopped
+     */
+    static cancelable<T>(promise: PromiseLike<T>, onCancel?: (reason: string) => void): EventPromise<T> {
+        let cancelled = false;
+        let rejectFn: (reason: any) => void = () => {};
+        const delegate = new Promise<T>((resolve, reject) => {
+            rejectFn = reject;
+            promise.then(
+                (value) => {
+                    if (!cancelled) {
+                        resolve(value);
+                    }
+                },
+                (err) => {
+                    if (!cancelled) {
+                        reject(err);
+                    }
+                }
+            );
+        });
+        return new EventPromise((reason) => {
+            if (!cancelled) {
+                cancelled = true;
+                if (onCancel) {
+                    onCancel(reason);
+                }
+                rejectFn(new CancelledError({ key: "CANCELLED", message: reason, captureStack: false }));
+            }
+            return undefined;
+        }, delegate);
+    }
+
     /**
      * Cancel this promise
      * @param reason
@@ -188,7 +331,8 @@ export class EventDef<TEventArgs extends {}> {
      */
     subscribe(listener: EventListener<TEventArgs>, emitter?: ee2.EventEmitter2): EventSubscription {
         (emitter || this.emitter).on(this.NAME, listener, this.options);
-        return new EventSubscription(this, listener);
+        // so cancelling removes the listener from the emitter it was added to
+        return new EventSubscription(emitter ? this.withEmmitter(emitter) : this, listener);
     }
 
     /**
@@ -0,0 +1,78 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { FileContentReader } from "./files";
+import { FileInfo } from "./types";
+
+/**
+ * A file on the local disk, standing in for a browser File outside the browser (e.g. in tests)
+ */
+export interface NodeFile extends FileInfo {
+    readonly path: string;
+}
+
+const extensionTypes: { [extension: string]: string } = {
+    ".csv": "text/csv",
+    ".txt": "text/plain",
+    ".json": "application/json",
+    ".pdf": "application/pdf",
+    ".png": "image/png",
+    ".jpg": "image/jpeg",
+    ".jpeg": "image/jpeg",
+    ".zip": "application/zip",
+    ".gz": "application/gzip",
+};
+
+/**
+ * Reads NodeFile content from the disk
+ */
+export class NodeFileContentReader implements FileContentReader {
+    async readText(file: FileInfo, encoding = "utf8"): Promise<string> {
+        return fs.readFile(toPath(file), { encoding: toNodeEncoding(encoding) });
+    }
+
+    async readBytes(file: FileInfo, length?: number): Promise<Uint8Array> {
+        if (length == undefined) {
+            return fs.readFile(toPath(file));
+        }
+        const handle = await fs.open(toPath(file), "r");
+        try {
+            const buffer = Buffer.alloc(length);
+            const { bytesRead } = await handle.read(buffer, 0, length, 0);
+            return buffer.slice(0, bytesRead);
+        } finally {
+            await handle.close();
+        }
+    }
+}
+
+/**
+ * Create a file value for the given local file, as the browser would for an upload
+ *
+ * @param filePath the file on disk
+ * @param type the media type. Guessed from the extension if not given
+ */
+export async function nodeFile(filePath: string, type?: string): Promise<NodeFile> {
+    const stats = await fs.stat(filePath);
+    return {
+        path: filePath,
+        name: path.basename(filePath),
+        type: type || extensionTypes[path.extname(filePath).toLowerCase()] || "application/octet-stream",
+        size: stats.size,
+        contentEncoding: "",
+        lastModified: stats.mtimeMs,
+        lastModifiedDate: stats.mtime.toISOString(),
+    };
+}
+
+function toPath(file: FileInfo): string {
+    const filePath = (file as NodeFile).path;
+    if (!filePath) {
+        throw new Error(`File '${file.name}' has no path, expect a NodeFile (see nodeFile)`);
+    }
+    return filePath;
+}
+
+function toNodeEncoding(encoding: string): BufferEncoding {
+    const normalised = encoding.toLowerCase().replace("-", "");
+    return (normalised == "utf8" ? "utf8" : normalised) as BufferEncoding;
+}
@@ -0,0 +1,276 @@
+import { CsvParseOptions, parseCsv } from "./csv";
+import { getLogger } from "./logger";
+import { CsvTextFile, FileInfo, TextFile } from "./types";
+
+const log = getLogger("files");
+
+/**
+ * Reads the content of uploaded files. Pluggable so content can be read outside the browser (see files.node)
+ */
+export interface FileContentReader {
+    /**
+     * Read the whole file as text
+     *
+     * @param file the file to read
+     * @param encoding the text encoding. Defaults to UTF-8
+     */
+    readText(file: FileInfo, encoding?: string): Promise<string>;
+    /**
+     * Read the raw bytes of the file
+     *
+     * @param file the file to read
+     * @param length only read this many bytes from the start. Defaults to the whole file
+     */
+    readBytes(file: FileInfo, length?: number): Promise<Uint8Array>;
+}
+
+/**
+ * Reads browser File/Blob objects via the FileReader api
+ */
+export class BrowserFileContentReader implements FileContentReader {
+    readText(file: FileInfo, encoding = "UTF-8"): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(reader.result as string);
+            reader.onerror = () => reject(reader.error);
+            reader.readAsText(toBlob(file), encoding);
+        });
+    }
+
+    readBytes(file: FileInfo, length?: number): Promise<Uint8Array> {
+        const blob = toBlob(file);
+        return new Promise((resolve, reject) => {
+            const reader = new FileReader();
+            reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+            reader.onerror = () => reject(reader.error);
+            reader.readAsArrayBuffer(length == undefined ? blob : blob.slice(0, length));
+        });
+    }
+}
+
+function toBlob(file: FileInfo): Blob {
+    return (file as unknown) as Blob;
+}
+
+let reader: FileContentReader = new BrowserFileContentReader();
+
+/**
+ * Set the reader used to load file content. If undefined then use the browser one
+ *
+ * @param contentReader the reader to use
+ */
+export function setFileContentReader(contentReader?: FileContentReader) {
+    log.debug("set file content reader", contentReader);
+    reader = contentReader || new BrowserFileContentReader();
+}
+
+export function getFileContentReader(): FileContentReader {
+    return reader;
+}
+
+/**
+ * If values of the given property type have text content, e.g. 'file:text' or 'List<file:text:csv>'
+ */
+export function isTextFileType(valueType: string): boolean {
+    return /(^|<)file:text/.test(valueType);
+}
+
+export function isCsvFileType(valueType: string): boolean {
+    return /(^|<)file:text:csv/.test(valueType);
+}
+
+/**
+ * Read the file content into 'TextFile.content'. The content is only read once
+ *
+ * @param file the file to read
+ * @param opts the text encoding
+ */
+export async function loadTextFile<TFile extends FileInfo>(
+    file: TFile,
+    opts: { encoding?: string } = {}
+): Promise<TFile & TextFile> {
+    const textFile = (file as unknown) as TFile & TextFile;
+    if (textFile.content == undefined) {
+        textFile.content = await reader.readText(file, opts.encoding);
+    }
+    return textFile;
+}
+
+/**
+ * Read the file content and parse it into 'CsvTextFile.rows'
+ *
+ * @param file the file to read
+ * @param opts how to parse the CSV, including mapping headers to column names and types
+ */
+export async function loadCsvFile<TFile extends FileInfo>(
+    file: TFile,
+    opts: CsvParseOptions & { encoding?: string } = {}
+): Promise<TFile & CsvTextFile> {
+    const textFile = await loadTextFile(file, opts);
+    const csvFile = (textFile as unknown) as TFile & CsvTextFile;
+    const parsed = parseCsv(textFile.content || "", opts);
+    csvFile.headers = parsed.headers;
+    csvFile.rows = parsed.rows;
+    csvFile.csvErrors = parsed.errors;
+    return csvFile;
+}
+
+/**
+ * How many leading bytes are read to detect the content type
+ */
+export const SNIFF_BYTES = 2048;
+
+/**
+ * The format detected from a file's leading bytes
+ */
+export interface SniffedType {
+    mediaType: string;
+    /**
+     * The text encoding, for text content
+     */
+    encoding?: string;
+}
+
+export const MEDIA_TYPE_BINARY = "application/octet-stream";
+export const MEDIA_TYPE_TEXT = "text/plain";
+export const MEDIA_TYPE_ZIP = "application/zip";
+export const MEDIA_TYPE_XLSX = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const signatures: Array<{ bytes: number[]; type: SniffedType }> = [
+    { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], type: { mediaType: "image/png" } },
+    { bytes: [0xff, 0xd8, 0xff], type: { mediaType: "image/jpeg" } },
+    // '%PDF-'
+    { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], type: { mediaType: "application/pdf" } },
+    { bytes: [0x1f, 0x8b], type: { mediaType: "application/gzip" } },
+    { bytes: [0xef, 0xbb, 0xbf], type: { mediaType: MEDIA_TYPE_TEXT, encoding: "UTF-8" } },
+    { bytes: [0xff, 0xfe], type: { mediaType: MEDIA_TYPE_TEXT, encoding: "UTF-16LE" } },
+    { bytes: [0xfe, 0xff], type: { mediaType: MEDIA_TYPE_TEXT, encoding: "UTF-16BE" } },
+];
+
+/**
+ * Zip based office formats, which look like plain zips from their signature
+ */
+const zipTypes = [
+    MEDIA_TYPE_ZIP,
+    "application/x-zip-compressed",
+    MEDIA_TYPE_XLSX,
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+];
+
+/**
+ * Declared types which are plain text underneath. Windows often declares CSV files as excel
+ */
+const textTypes = ["application/json", "application/xml", "application/csv", "application/vnd.ms-excel"];
+
+function startsWith(bytes: Uint8Array, signature: number[]): boolean {
+    return bytes.length >= signature.length && signature.every((b, i) => bytes[i] == b);
+}
+
+function contains(bytes: Uint8Array, text: string): boolean {
+    const needle = text.split("").map((c) => c.charCodeAt(0));
+    for (let i = 0; i + needle.length <= bytes.length; i++) {
+        if (startsWith(bytes.subarray(i), needle)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * If the bytes look like text: no control characters other than whitespace, and valid UTF-8. A multi byte
+ * character cut off at the end is allowed, as only the leading bytes are checked
+ */
+function looksLikeText(bytes: Uint8Array): boolean {
+    let i = 0;
+    while (i < bytes.length) {
+        const b = bytes[i];
+        if (b < 0x80) {
+            // tab, newline, form feed and carriage return are fine
+            if (b < 0x20 && b != 0x09 && b != 0x0a && b != 0x0c && b != 0x0d) {
+                return false;
+            }
+            i++;
+            continue;
+        }
+        const extra = b >= 0xf0 && b <= 0xf4 ? 3 : b >= 0xe0 ? 2 : b >= 0xc2 && b < 0xe0 ? 1 : -1;
+        if (extra < 0) {
+            return false;
+        }
+        for (let j = 1; j <= extra && i + j < bytes.length; j++) {
+            if ((bytes[i + j] & 0xc0) != 0x80) {
+                return false;
+            }
+        }
+        i += extra + 1;
+    }
+    return true;
+}
+
+/**
+ * Detect the content type from the leading bytes of a file. Unknown binary content is reported as
+ * 'application/octet-stream'
+ *
+ * @param bytes the leading bytes, see SNIFF_BYTES
+ */
+export function sniffContentType(bytes: Uint8Array): SniffedType {
+    for (const signature of signatures) {
+        if (startsWith(bytes, signature.bytes)) {
+            return { ...signature.type };
+        }
+    }
+    // 'PK' followed by a local file, empty archive or spanned archive header
+    if (bytes[0] == 0x50 && bytes[1] == 0x4b && [0x03, 0x05, 0x07].indexOf(bytes[2]) != -1) {
+        // the entry names are stored in the clear, and excel files always have an 'xl/' folder
+        return { mediaType: contains(bytes, "xl/") ? MEDIA_TYPE_XLSX : MEDIA_TYPE_ZIP };
+    }
+    if (bytes.length > 0 && looksLikeText(bytes)) {
+        return { mediaType: MEDIA_TYPE_TEXT, encoding: "UTF-8" };
+    }
+    return { mediaType: MEDIA_TYPE_BINARY };
+}
+
+/**
+ * Read the leading bytes of a File/Blob (via the content reader) or a Node Buffer
+ *
+ * @param value the file or bytes
+ * @param length how many bytes to read
+ */
+export async function readLeadingBytes(value: FileInfo | Blob | Uint8Array, length = SNIFF_BYTES): Promise<Uint8Array> {
+    if (value instanceof Uint8Array) {
+        return value.subarray(0, length);
+    }
+    return reader.readBytes(value as FileInfo, length);
+}
+
+/**
+ * Read the leading bytes of the file and detect its content type
+ */
+export async function sniffFile(value: FileInfo | Blob | Uint8Array): Promise<SniffedType> {
+    return sniffContentType(await readLeadingBytes(value));
+}
+
+/**
+ * If content of the detected type is acceptable for the given media type. Wildcards like 'image/*' are supported,
+ * all zip based formats match each other (only excel files are told apart from plain zips), and text content matches
+ * any textual type
+ *
+ * @param mediaType the declared or allowed media type
+ * @param detected the detected type
+ */
+export function isCompatibleType(mediaType: string, detected: SniffedType): boolean {
+    const type = mediaType.toLowerCase().split(";")[0].trim();
+    if (type == detected.mediaType) {
+        return true;
+    }
+    if (type.substring(type.length - 2) == "/*") {
+        return detected.mediaType.indexOf(type.substring(0, type.length - 1)) == 0;
+    }
+    if (detected.mediaType == MEDIA_TYPE_ZIP || detected.mediaType == MEDIA_TYPE_XLSX) {
+        return zipTypes.indexOf(type) != -1;
+    }
+    if (detected.mediaType == MEDIA_TYPE_TEXT) {
+        return type.indexOf("text/") == 0 || textTypes.indexOf(type) != -1;
+    }
+    return false;
+}
@@ -0,0 +1,120 @@
+/**
+ * How to display a single property (or sub form)
+ */
+export interface FieldLayout {
+    /**
+     * The property or sub form name
+     */
+    name: string;
+    /**
+     * How many columns of the containing section or group to span. Defaults to 1
+     */
+    span?: number;
+    /**
+     * The widget to use, overriding the one derived from the property type. See forms.render.widgetFor
+     */
+    widget?: string;
+    /**
+     * Sort order within the containing section or group. Unordered fields keep their given order, after any
+     * ordered ones
+     */
+    order?: number;
+}
+
+/**
+ * A field is either a property name, or the full field layout
+ */
+export type FieldLayoutRef = string | FieldLayout;
+
+/**
+ * Related fields displayed together within a section, e.g. the parts of an address
+ */
+export interface GroupLayout {
+    name: string;
+    /**
+     * Can be a locations key
+     */
+    label?: string;
+    /**
+     * Defaults to the section columns
+     */
+    columns?: number;
+    order?: number;
+    fields: FieldLayoutRef[];
+}
+
+/**
+ * A titled part of the form, holding fields and groups
+ */
+export interface SectionLayout {
+    name: string;
+    /**
+     * Can be a locations key
+     */
+    title?: string;
+    /**
+     * Can be a locations key
+     */
+    description?: string;
+    /**
+     * Defaults to the form layout columns
+     */
+    columns?: number;
+    order?: number;
+    collapsible?: boolean;
+    /**
+     * Fields displayed before any groups
+     */
+    fields?: FieldLayoutRef[];
+    groups?: GroupLayout[];
+}
+
+/**
+ * Framework agnostic description of how a form is laid out, used by the auto form layout engine (see
+ * forms.render). Properties are referred to by name, so a layout is plain data which can be shared or serialised
+ */
+export interface FormLayout {
+    /**
+     * The number of columns in the grid. Defaults to 1
+     */
+    columns?: number;
+    sections: SectionLayout[];
+    /**
+     * Display any properties and sub forms not placed in a section in a trailing, untitled section. Defaults to true
+     */
+    includeUnplaced?: boolean;
+}
+
+export const DEFAULT_SECTION_NAME = "default";
+
+export function toFieldLayout(field: FieldLayoutRef): FieldLayout {
+    return typeof field === "string" ? { name: field } : field;
+}
+
+/**
+ * Sort by 'order', keeping the given order for ties and anything without one
+ */
+export function sortByOrder<T extends { order?: number }>(items: T[]): T[] {
+    return items
+        .map((item, index) => ({ item, index }))
+        .sort((a, b) => {
+            const orderA = a.item.order == undefined ? Number.MAX_VALUE : a.item.order;
+            const orderB = b.item.order == undefined ? Number.MAX_VALUE : b.item.order;
+            return orderA == orderB ? a.index - b.index : orderA - orderB;
+        })
+        .map((entry) => entry.item);
+}
+
+/**
+ * The names of all the properties and sub forms placed by the layout, in layout order
+ */
+export function placedNames(layout: FormLayout): string[] {
+    const names: string[] = [];
+    sortByOrder(layout.sections).forEach((section) => {
+        sortByOrder((section.fields || []).map(toFieldLayout)).forEach((field) => names.push(field.name));
+        sortByOrder(section.groups || []).forEach((group) =>
+            sortByOrder(group.fields.map(toFieldLayout)).forEach((field) => names.push(field.name))
+        );
+    });
+    return names;
+}
@@ -0,0 +1,353 @@
+import { EventEmitter2 } from "eventemitter2";
+import _ from "lodash";
+import { CqrsApi, FindQuery } from "./cqrs";
+import * as events from "./events";
+import { getLogger } from "./logger";
+import * as vue_tools from "./vue-tools";
+
+const log = getLogger("forms.options");
+
+/**
+ * A selectable option of an enum/select property
+ */
+export interface SelectOption<TValue = any> {
+    value: TValue;
+    /**
+     * The text to display. Defaults to the value
+     */
+    label: string;
+    disabled?: boolean;
+    /**
+     * The item the option was created from, e.g. the find query result
+     */
+    data?: any;
+}
+
+export interface OptionsRequest {
+    /**
+     * The text the user is searching for. Empty for all options
+     */
+    search: string;
+    offset: number;
+    limit: number;
+}
+
+export interface OptionsPage<TValue = any> {
+    options: SelectOption<TValue>[];
+    /**
+     * True if there are more options after this page
+     */
+    hasMore: boolean;
+}
+
+/**
+ * Where options are loaded from
+ */
+export interface OptionsSource<TValue = any> {
+    load(request: OptionsRequest): Promise<OptionsPage<TValue>>;
+}
+
+/**
+ * Options can be given as full options, or as plain values which are their own labels
+ */
+export type OptionItem<TValue = any> = SelectOption<TValue> | TValue;
+
+/**
+ * Return the options matching the search text
+ */
+export type OptionsFunction<TValue = any> = (
+    search: string
+) => OptionItem<TValue>[] | PromiseLike<OptionItem<TValue>[]>;
+
+/**
+ * Load the options by running a find query against the backend
+ */
+export interface FindQueryOptionsSpec<TValue = any, TResult = any> {
+    api: CqrsApi;
+    /**
+     * Create the query for the given search text and page
+     */
+    query: (request: OptionsRequest) => FindQuery<any, TResult>;
+    /**
+     * Convert a query result into an option
+     */
+    toOption: (result: TResult) => SelectOption<TValue>;
+}
+
+/**
+ * The ways options can be provided to a property
+ */
+export type OptionsSpec<TValue = any> =
+    | OptionItem<TValue>[]
+    | OptionsFunction<TValue>
+    | FindQueryOptionsSpec<TValue>
+    | OptionsSource<TValue>;
+
+export function toSelectOption<TValue>(item: OptionItem<TValue>): SelectOption<TValue> {
+    if (_.isPlainObject(item) && _.has(item, "value")) {
+        const option = item as SelectOption<TValue>;
+        return { ...option, label: option.label == undefined ? `${option.value}` : option.label };
+    }
+    return { value: item as TValue, label: `${item}` };
+}
+
+function matches(option: SelectOption<any>, search: string): boolean {
+    return search.length == 0 || option.label.toLowerCase().indexOf(search.toLowerCase()) != -1;
+}
+
+function toPage<TValue>(options: SelectOption<TValue>[], request: OptionsRequest): OptionsPage<TValue> {
+    return {
+        options: options.slice(request.offset, request.offset + request.limit),
+        hasMore: options.length > request.offset + request.limit,
+    };
+}
+
+/**
+ * A fixed list of options, searched by label
+ */
+export class StaticOptionsSource<TValue = any> implements OptionsSource<TValue> {
+    readonly items: SelectOption<TValue>[];
+
+    constructor(items: OptionItem<TValue>[]) {
+        this.items = items.map(toSelectOption);
+    }
+
+    async load(request: OptionsRequest): Promise<OptionsPage<TValue>> {
+        return toPage(
+            this.items.filter((option) => matches(option, request.search)),
+            request
+        );
+    }
+}
+
+/**
+ * Options returned by a function, which does its own searching
+ */
+export function functionOptions<TValue>(fn: OptionsFunction<TValue>): OptionsSource<TValue> {
+    return {
+        load: async (request) => toPage((await fn(request.search)).map(toSelectOption), request),
+    };
+}
+
+/**
+ * Options loaded a page at a time by a find query
+ */
+export function findQueryOptions<TValue, TResult>(spec: FindQueryOptionsSpec<TValue, TResult>): OptionsSource<TValue> {
+    return {
+        load: async (request) => {
+            const response = await spec.api.find(spec.query(request));
+            return { options: response.results.map(spec.toOption), hasMore: response.hasMore };
+        },
+    };
+}
+
+export function toOptionsSource<TValue>(spec: OptionsSpec<TValue>): OptionsSource<TValue> {
+    if (Array.isArray(spec)) {
+        return new StaticOptionsSource(spec);
+    }
+    if (typeof spec === "function") {
+        return functionOptions(spec as OptionsFunction<TValue>);
+    }
+    if ((spec as FindQueryOptionsSpec<TValue>).api) {
+        return findQueryOptions(spec as FindQueryOptionsSpec<TValue>);
+    }
+    return spec as OptionsSource<TValue>;
+}
+
+export const optionsLoadedEvent = events.defineEvent<{
+    provider: OptionsProvider<any>;
+    search: string;
+    offset: number;
+}>("forms.OptionsLoadedEvent");
+
+export interface OptionsProviderOptions {
+    /**
+     * How many options to load at a time. Defaults to OptionsProvider.DEFAULT_PAGE_SIZE
+     */
+    pageSize?: number;
+    /**
+     * How long to cache loaded pages. 0 to disable. Defaults to OptionsProvider.DEFAULT_CACHE_TTL_MS
+     */
+    cacheTtlMs?: number;
+}
+
+type CachedPage<TValue> = { page: OptionsPage<TValue>; expires: number };
+
+/**
+ * Loads and holds the selectable options of a property, for the current search text. Pages are cached, and a
+ * newer search always wins over a slower older one
+ */
+export class OptionsProvider<TValue = any> {
+    static readonly DEFAULT_PAGE_SIZE = 50;
+    static readonly DEFAULT_CACHE_TTL_MS = 5 * 60 * 1000;
+
+    readonly $events = new EventEmitter2();
+    readonly $loadedEvent = optionsLoadedEvent.withEmmitter(this.$events);
+
+    /**
+     * The options loaded for the current search, in order. Modified in place so vue sees the changes
+     */
+    readonly options: SelectOption<TValue>[] = [];
+    search = "";
+    hasMore = false;
+    loading = false;
+    /**
+     * True once every option is known, i.e. all the pages have been loaded without any search text
+     */
+    complete = false;
+    /**
+     * The error from the last load, if it failed
+     */
+    error?: any;
+
+    readonly pageSize: number;
+    readonly cacheTtlMs: number;
+
+    /**
+     * Every option loaded so far, across searches
+     */
+    private readonly _known: SelectOption<TValue>[] = [];
+    private _request = 0;
+
+    constructor(
+        readonly source: OptionsSource<TValue>,
+        opts: OptionsProviderOptions = {},
+        private readonly _cache: { [key: string]: CachedPage<TValue> } = {}
+    ) {
+        this.pageSize = opts.pageSize || OptionsProvider.DEFAULT_PAGE_SIZE;
+        this.cacheTtlMs = opts.cacheTtlMs == undefined ? OptionsProvider.DEFAULT_CACHE_TTL_MS : opts.cacheTtlMs;
+        // no need to wait for a fixed list
+        if (source instanceof StaticOptionsSource) {
+            const page = toPage(source.items, { search: "", offset: 0, limit: this.pageSize });
+            vue_tools.replaceArray(this.options, page.options);
+            this.hasMore = page.hasMore;
+            this.remember(source.items);
+            this.complete = true;
+        }
+    }
+
+    /**
+     * Load the first page of options matching the search text
+     */
+    load(search = ""): Promise<SelectOption<TValue>[]> {
+        return this.fetch(search, 0);
+    }
+
+    /**
+     * Load the next page of options for the current search, if there are more
+     */
+    loadMore(): Promise<SelectOption<TValue>[]> {
+        if (!this.hasMore) {
+            return Promise.resolve(this.options);
+        }
+        return this.fetch(this.search, this.options.length);
+    }
+
+    /**
+     * Return the loaded option with the given value
+     */
+    find(value: TValue): SelectOption<TValue> | undefined {
+        return _.find(this._known, (option) => _.isEqual(option.value, value));
+    }
+
+    /**
+     * The label of the option with the given value, or the value itself if the option hasn't been loaded
+     */
+    labelOf(value: TValue): string {
+        if (value == undefined) {
+            return "";
+        }
+        const option = this.find(value);
+        return option ? option.label : `${value}`;
+    }
+
+    /**
+     * The values of every option loaded so far
+     */
+    get knownValues(): TValue[] {
+        return this._known.map((option) => option.value);
+    }
+
+    clearCache() {
+        Object.keys(this._cache).forEach((key) => delete this._cache[key]);
+    }
+
+    /**
+     * A new provider with the same source, sharing this provider's cache
+     */
+    clone(): OptionsProvider<TValue> {
+        return new OptionsProvider(this.source, { pageSize: this.pageSize, cacheTtlMs: this.cacheTtlMs }, this._cache);
+    }
+
+    private async fetch(search: string, offset: number): Promise<SelectOption<TValue>[]> {
+        const request = ++this._request;
+        this.search = search;
+        this.loading = true;
+        this.error = undefined;
+        try {
+            const page = await this.loadPage({ search, offset, limit: this.pageSize });
+            if (request != this._request) {
+                log.trace("ignoring superseded options", { search, offset });
+                return this.options;
+            }
+            if (offset == 0) {
+                vue_tools.replaceArray(this.options, page.options);
+            } else {
+                this.options.push(...page.options);
+            }
+            this.hasMore = page.hasMore;
+            this.remember(page.options);
+            // pages are loaded in order, so no more means we've seen them all
+            if (search.length == 0 && !page.hasMore) {
+                this.complete = true;
+            }
+            this.$loadedEvent.emit({ provider: this, search, offset });
+            return this.options;
+        } catch (err) {
+            if (request == this._request) {
+                this.error = err;
+            }
+            log.warn(`Error loading options for search '${search}'`, err);
+            throw err;
+        } finally {
+            if (request == this._request) {
+                this.loading = false;
+            }
+        }
+    }
+
+    private async loadPage(request: OptionsRequest): Promise<OptionsPage<TValue>> {
+        if (this.cacheTtlMs <= 0) {
+            return this.source.load(request);
+        }
+        const key = JSON.stringify([request.search, request.offset, request.limit]);
+        const cached = this._cache[key];
+        if (cached && cached.expires > Date.now()) {
+            return cached.page;
+        }
+        const page = await this.source.load(request);
+        this._cache[key] = { page, expires: Date.now() + this.cacheTtlMs };
+        return page;
+    }
+
+    private remember(options: SelectOption<TValue>[]) {
+        options.forEach((option) => {
+            const index = _.findIndex(this._known, (known) => _.isEqual(known.value, option.value));
+            if (index == -1) {
+                this._known.push(option);
+            } else {
+                this._known[index] = option;
+            }
+        });
+    }
+}
+
+/**
+ * Create a provider from any of the ways options can be given
+ */
+export function toOptionsProvider<TValue>(
+    spec: OptionsSpec<TValue> | OptionsProvider<TValue>,
+    opts: OptionsProviderOptions = {}
+): OptionsProvider<TValue> {
+    return spec instanceof OptionsProvider ? spec : new OptionsProvider(toOptionsSource(spec), opts);
+}
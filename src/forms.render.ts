@@ -0,0 +1,303 @@
+import _ from "lodash";
+import { FormArray, FormProperty, PropertiesForm, PropertyFlags } from "./forms";
+import {
+    DEFAULT_SECTION_NAME,
+    FieldLayout,
+    FieldLayoutRef,
+    FormLayout,
+    GroupLayout,
+    placedNames,
+    SectionLayout,
+    sortByOrder,
+    toFieldLayout,
+} from "./forms.layout";
+import { SelectOption } from "./forms.options";
+import * as i18n from "./i18n";
+import { getLogger } from "./logger";
+
+const log = getLogger("forms.render");
+
+/**
+ * A displayable property
+ */
+export interface FieldNode {
+    readonly kind: "field";
+    readonly name: string;
+    readonly fullname: string;
+    readonly label: string;
+    readonly hint?: string;
+    readonly description?: string;
+    /**
+     * What to display the property with, e.g. 'text', 'select' or 'checkbox'. See widgetFor
+     */
+    readonly widget: string;
+    readonly span: number;
+    readonly tabIndex?: number;
+    readonly autoFocus?: boolean;
+    readonly required: boolean;
+    readonly readonly: boolean;
+    readonly disabled: boolean;
+    readonly masked: boolean;
+    /**
+     * The value formatted for display
+     */
+    readonly displayValue: string;
+    readonly errors: string[];
+    /**
+     * The options loaded so far, for select widgets
+     */
+    readonly options?: SelectOption[];
+    /**
+     * The rows of a form array
+     */
+    readonly rows?: FormNode[];
+}
+
+/**
+ * A sub form, displayed in place
+ */
+export interface SubFormNode {
+    readonly kind: "subForm";
+    readonly name: string;
+    readonly span: number;
+    readonly form: FormNode;
+}
+
+export type FieldOrSubFormNode = FieldNode | SubFormNode;
+
+export interface GroupNode {
+    readonly kind: "group";
+    readonly name: string;
+    readonly label?: string;
+    readonly columns: number;
+    readonly children: FieldOrSubFormNode[];
+}
+
+export interface SectionNode {
+    readonly kind: "section";
+    readonly name: string;
+    readonly title?: string;
+    readonly description?: string;
+    readonly columns: number;
+    readonly collapsible: boolean;
+    readonly children: Array<FieldOrSubFormNode | GroupNode>;
+}
+
+export interface FormNode {
+    readonly kind: "form";
+    readonly name: string;
+    readonly title: string;
+    readonly columns: number;
+    readonly errors: string[];
+    readonly sections: SectionNode[];
+}
+
+export type RenderNode = FormNode | SectionNode | GroupNode | FieldNode | SubFormNode;
+
+export interface RenderOptions {
+    /**
+     * Include properties which are 'hidden', or not visible due to their 'visibleWhen' condition, as 'hidden'
+     * widgets. Defaults to false
+     */
+    includeHidden?: boolean;
+}
+
+/**
+ * The widget to display the property with, derived from its type flags
+ */
+export function widgetFor(property: FormProperty<any>): string {
+    const flags = property.flags;
+    const isList = (flags & (PropertyFlags.IsList | PropertyFlags.IsSet)) != 0;
+    if (property instanceof FormArray) {
+        return "array";
+    }
+    if (property.options || flags & PropertyFlags.IsEnum) {
+        return isList ? "multiselect" : "select";
+    }
+    if (flags & PropertyFlags.IsFile) {
+        return isList ? "files" : "file";
+    }
+    if (isList) {
+        return "list";
+    }
+    if (flags & PropertyFlags.IsBoolean) {
+        return "checkbox";
+    }
+    if (flags & PropertyFlags.IsDate) {
+        return property.valueType == "date:time" ? "datetime" : "date";
+    }
+    if (flags & PropertyFlags.IsNumber) {
+        return "number";
+    }
+    if (property.masked || property.valueType == "string:password") {
+        return "password";
+    }
+    if (property.valueType == "string:email") {
+        return "email";
+    }
+    if (property.valueType == "string:multiline") {
+        return "textarea";
+    }
+    return "text";
+}
+
+/**
+ * Describe the form as a tree of plain nodes, laid out by the form's '$layout'. Without a layout every property
+ * and sub form is placed in a single untitled section, ordered by 'tabIndex'. Doesn't modify the form, so can be
+ * called on every change to re-render
+ *
+ * @param form the form to describe
+ * @param opts what to include
+ */
+export function toRenderTree(form: PropertiesForm, opts: RenderOptions = {}): FormNode {
+    const layout: FormLayout = form.$layout || { sections: [] };
+    const columns = layout.columns || 1;
+    const placed: string[] = [];
+    const sections = sortByOrder(layout.sections)
+        .map((section) => sectionNode(form, section, columns, placed, opts))
+        .filter((section) => section.children.length > 0);
+
+    if (layout.includeUnplaced != false) {
+        const unplaced = unplacedFields(form, placed);
+        const section = sectionNode(form, { name: DEFAULT_SECTION_NAME, fields: unplaced }, columns, placed, opts);
+        if (section.children.length > 0) {
+            sections.push(section);
+        }
+    }
+    return {
+        kind: "form",
+        name: form.$formName,
+        title: i18n.resolve(form.$title) || "",
+        columns,
+        errors: [...form.$formErrors],
+        sections,
+    };
+}
+
+function sectionNode(
+    form: PropertiesForm,
+    section: SectionLayout,
+    formColumns: number,
+    placed: string[],
+    opts: RenderOptions
+): SectionNode {
+    const columns = section.columns || formColumns;
+    const fields = fieldNodes(form, section.fields || [], columns, placed, opts);
+    const groups = sortByOrder(section.groups || [])
+        .map((group) => groupNode(form, group, columns, placed, opts))
+        .filter((group) => group.children.length > 0);
+    return {
+        kind: "section",
+        name: section.name,
+        title: i18n.resolve(section.title),
+        description: i18n.resolve(section.description),
+        columns,
+        collapsible: section.collapsible == true,
+        children: [...fields, ...groups],
+    };
+}
+
+function groupNode(
+    form: PropertiesForm,
+    group: GroupLayout,
+    sectionColumns: number,
+    placed: string[],
+    opts: RenderOptions
+): GroupNode {
+    const columns = group.columns || sectionColumns;
+    return {
+        kind: "group",
+        name: group.name,
+        label: i18n.resolve(group.label),
+        columns,
+        children: fieldNodes(form, group.fields, columns, placed, opts),
+    };
+}
+
+function fieldNodes(
+    form: PropertiesForm,
+    fields: FieldLayoutRef[],
+    columns: number,
+    placed: string[],
+    opts: RenderOptions
+): FieldOrSubFormNode[] {
+    const nodes: FieldOrSubFormNode[] = [];
+    sortByOrder(fields.map(toFieldLayout)).forEach((field) => {
+        if (placed.indexOf(field.name) != -1) {
+            log.warn(`'${field.name}' is placed more than once in the layout of form '${form.$formName}', ignoring`);
+            return;
+        }
+        placed.push(field.name);
+        const span = Math.max(1, Math.min(field.span || 1, columns));
+        const property = form.$property(field.name);
+        if (property) {
+            if (isDisplayed(property, opts)) {
+                nodes.push(fieldNode(property, field, span, opts));
+            }
+            return;
+        }
+        const subForm = _.find(form.$subForms, (f) => f.$formName == field.name);
+        if (subForm) {
+            nodes.push({ kind: "subForm", name: subForm.$formName, span, form: toRenderTree(subForm, opts) });
+            return;
+        }
+        log.warn(`No property or sub form '${field.name}' in form '${form.$formName}', ignoring it in the layout`);
+    });
+    return nodes;
+}
+
+function isDisplayed(property: FormProperty<any>, opts: RenderOptions): boolean {
+    return opts.includeHidden == true || (property.visible && !property.hidden);
+}
+
+function fieldNode(property: FormProperty<any>, field: FieldLayout, span: number, opts: RenderOptions): FieldNode {
+    const hidden = !property.visible || property.hidden;
+    return {
+        kind: "field",
+        name: property.name,
+        fullname: property.fullname,
+        label: property.label,
+        hint: property.hint,
+        description: property.description,
+        widget: hidden ? "hidden" : field.widget || widgetFor(property),
+        span,
+        tabIndex: property.tabIndex,
+        autoFocus: property.autoFocus,
+        required: property.required,
+        readonly: property.readonly,
+        disabled: !property.enabled,
+        masked: property.masked,
+        displayValue: property.masked ? "" : property.displayValue,
+        errors: [...property.errors],
+        options: property.options ? property.options.options.map((option) => ({ ...option })) : undefined,
+        rows: property instanceof FormArray ? property.rows.map((row) => toRenderTree(row, opts)) : undefined,
+    };
+}
+
+/**
+ * The properties then sub forms not placed by the layout. Properties with a tabIndex come first
+ */
+function unplacedFields(form: PropertiesForm, placed: string[]): FieldLayout[] {
+    const properties = form.$properties.filter((p) => placed.indexOf(p.name) == -1);
+    const byTabIndex = sortByOrder(properties.map((p) => ({ name: p.name, order: p.tabIndex })));
+    const subForms = form.$subForms.filter((f) => placed.indexOf(f.$formName) == -1);
+    return [...byTabIndex.map((p) => ({ name: p.name })), ...subForms.map((f) => ({ name: f.$formName }))];
+}
+
+/**
+ * Check the layout only refers to the form's properties and sub forms, each placed once. Returns the problems
+ * found, empty if the layout is fine
+ */
+export function checkLayout(form: PropertiesForm, layout: FormLayout): string[] {
+    const problems: string[] = [];
+    const names = placedNames(layout);
+    names.forEach((name, i) => {
+        if (names.indexOf(name) != i) {
+            problems.push(`'${name}' is placed more than once`);
+        }
+        if (!form.$property(name) && !_.some(form.$subForms, (f) => f.$formName == name)) {
+            problems.push(`No property or sub form '${name}'`);
+        }
+    });
+    return _.uniq(problems);
+}
@@ -0,0 +1,520 @@
+import _ from "lodash";
+import { FormArray, FormArrayOptions, FormProperty, FormPropertyOptions, PropertiesForm } from "./forms";
+import { getLogger } from "./logger";
+import * as rules from "./rules";
+
+const log = getLogger("forms.schema");
+
+export type JsonSchemaType = "string" | "number" | "integer" | "boolean" | "object" | "array" | "null";
+
+/**
+ * The subset of JSON Schema (draft 7 / 2019-09) used to build and describe forms
+ */
+export interface JsonSchema {
+    $schema?: string;
+    $id?: string;
+    $ref?: string;
+    title?: string;
+    description?: string;
+    type?: JsonSchemaType | JsonSchemaType[];
+    format?: string;
+    default?: any;
+    readOnly?: boolean;
+    writeOnly?: boolean;
+    enum?: any[];
+    // string
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    contentMediaType?: string;
+    contentEncoding?: string;
+    // number
+    minimum?: number;
+    maximum?: number;
+    // array
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+    uniqueItems?: boolean;
+    // combinators
+    allOf?: JsonSchema[];
+    anyOf?: JsonSchema[];
+    not?: JsonSchema;
+    // object
+    properties?: { [name: string]: JsonSchema };
+    required?: string[];
+    definitions?: { [name: string]: JsonSchema };
+    $defs?: { [name: string]: JsonSchema };
+    // anything else, including 'x-' extensions
+    [keyword: string]: any;
+}
+
+/**
+ * Keywords which describe rather than constrain a value, so don't need a rule
+ */
+const annotationKeywords = [
+    "$schema",
+    "$id",
+    "$ref",
+    "$comment",
+    "title",
+    "description",
+    "type",
+    "format",
+    "default",
+    "examples",
+    "readOnly",
+    "writeOnly",
+    "properties",
+    "additionalProperties",
+    "items",
+    "required",
+    "definitions",
+    "$defs",
+    "uniqueItems",
+];
+
+/**
+ * Keywords mapped onto rules (or handled by the property type)
+ */
+const constraintKeywords = [
+    "enum",
+    "minLength",
+    "maxLength",
+    "pattern",
+    "minimum",
+    "maximum",
+    "minItems",
+    "maxItems",
+    "contentMediaType",
+    "contentEncoding",
+    "allOf",
+    "anyOf",
+    "not",
+];
+
+const formatToType: { [format: string]: string } = {
+    email: "string:email",
+    "idn-email": "string:email",
+    password: "string:password",
+    date: "date",
+    "date-time": "date:time",
+    uuid: "string:id",
+    multiline: "string:multiline",
+};
+
+/**
+ * Build a form from the given JSON Schema. Each schema property becomes a form property, with the constraints mapped
+ * onto the matching rules. Nested objects become sub forms, and arrays of objects become form arrays. Unsupported constraints are added as 'unknown' rules so
+ * they are still visible to tooling
+ *
+ * @param schema an object schema
+ * @param opts override the form name and title. Default to the schema '$id' and 'title'
+ */
+export function formFromJsonSchema(
+    schema: JsonSchema,
+    opts: { formName?: string; title?: string } = {}
+): PropertiesForm {
+    return buildForm(schema, schema, opts.formName || schema.$id || schema.title || "form", opts.title);
+}
+
+function buildForm(root: JsonSchema, schema: JsonSchema, formName: string, title?: string): PropertiesForm {
+    const resolved = resolveRef(root, schema);
+    const form = new PropertiesForm({ formName, title: title || resolved.title || formName });
+    const required = resolved.required || [];
+    _.forEach(resolved.properties, (propertySchema, name) => {
+        const propSchema = resolveRef(root, propertySchema);
+        if (isType(propSchema, "object")) {
+            form.addSubForm(buildForm(root, propSchema, name));
+            return;
+        }
+        if (isType(propSchema, "array") && propSchema.items && isType(resolveRef(root, propSchema.items), "object")) {
+            form.newFormArray(formArrayOptions(root, name, propSchema, required.indexOf(name) != -1));
+            return;
+        }
+        form.newProperty(propertyOptions(root, name, propSchema, required.indexOf(name) != -1));
+    });
+    return form;
+}
+
+function propertyOptions(
+    root: JsonSchema,
+    name: string,
+    schema: JsonSchema,
+    required: boolean
+): Omit<FormPropertyOptions, "form"> {
+    const propertyRules: rules.Rule<any>[] = required ? [rules.required()] : [];
+    const type = toPropertyType(root, schema);
+    if (isType(schema, "array")) {
+        propertyRules.push(...arrayRules(schema));
+        const items = schema.items ? resolveRef(root, schema.items) : undefined;
+        const itemRules = items ? valueRules(items) : [];
+        if (itemRules.length > 0) {
+            propertyRules.push(rules.eachItem(...itemRules));
+        }
+    } else {
+        propertyRules.push(...valueRules(schema));
+    }
+    propertyRules.push(...unknownRules(schema));
+    return {
+        name,
+        label: schema.title,
+        description: schema.description,
+        default: schema.default,
+        type,
+        readonly: schema.readOnly == true,
+        masked: schema.format == "password" || schema.writeOnly == true || schema["x-masked"] == true,
+        hint: schema["x-hint"],
+        hidden: schema["x-hidden"] == true,
+        remember: schema["x-remember"] == true,
+        rules: propertyRules,
+    };
+}
+
+function formArrayOptions(
+    root: JsonSchema,
+    name: string,
+    schema: JsonSchema,
+    required: boolean
+): Omit<FormArrayOptions, "form"> {
+    const items = resolveRef(root, schema.items as JsonSchema);
+    return {
+        name,
+        label: schema.title,
+        description: schema.description,
+        default: schema.default,
+        readonly: schema.readOnly == true,
+        hint: schema["x-hint"],
+        hidden: schema["x-hidden"] == true,
+        rules: unknownRules(schema),
+        template: buildForm(root, items, name),
+        // the rows are always set, so a required array needs at least one row
+        minItems: required ? Math.max(schema.minItems || 0, 1) : schema.minItems,
+        maxItems: schema.maxItems,
+    };
+}
+
+function isType(schema: JsonSchema, type: JsonSchemaType): boolean {
+    if (schema.type == undefined) {
+        return (type == "object" && schema.properties != undefined) || (type == "array" && schema.items != undefined);
+    }
+    return Array.isArray(schema.type) ? schema.type.indexOf(type) != -1 : schema.type == type;
+}
+
+/**
+ * Map the schema type onto the 'IL model' type used by PropertyFlags.fromType
+ */
+function toPropertyType(root: JsonSchema, schema: JsonSchema): string {
+    if (schema.enum) {
+        return "enum";
+    }
+    if (schema.contentMediaType || schema.contentEncoding) {
+        return toFileType(schema);
+    }
+    if (isType(schema, "array")) {
+        const itemType = schema.items ? toPropertyType(root, resolveRef(root, schema.items)) : "string";
+        return `${schema.uniqueItems ? "Set" : "List"}<${itemType}>`;
+    }
+    if (isType(schema, "integer")) {
+        return "number:integer";
+    }
+    if (isType(schema, "number")) {
+        return "number";
+    }
+    if (isType(schema, "boolean")) {
+        return "boolean";
+    }
+    return (schema.format && formatToType[schema.format]) || "string";
+}
+
+function toFileType(schema: JsonSchema): string {
+    const mediaType = schema.contentMediaType || "";
+    if (mediaType == "text/csv") {
+        return "file:text:csv";
+    }
+    if (mediaType.indexOf("text/") == 0) {
+        return "file:text";
+    }
+    if (schema.contentEncoding == "base64" || mediaType.length > 0) {
+        return "file:binary";
+    }
+    return "file";
+}
+
+/**
+ * The rules which apply to a single value (or each item for arrays)
+ */
+function valueRules(schema: JsonSchema): rules.Rule<any>[] {
+    const valueRules: rules.Rule<any>[] = [];
+    if (schema.format == "email" || schema.format == "idn-email") {
+        valueRules.push(rules.email());
+    }
+    if (schema.minLength != undefined) {
+        valueRules.push(rules.minLength(schema.minLength));
+    }
+    if (schema.maxLength != undefined) {
+        valueRules.push(rules.maxLength(schema.maxLength));
+    }
+    if (schema.pattern != undefined) {
+        valueRules.push(rules.pattern(schema.pattern));
+    }
+    if (schema.enum) {
+        valueRules.push(rules.oneOf(schema.enum));
+    }
+    if (schema.minimum != undefined) {
+        valueRules.push(rules.minVal(schema.minimum));
+    }
+    if (schema.maximum != undefined) {
+        valueRules.push(rules.maxVal(schema.maximum));
+    }
+    if (schema.contentMediaType != undefined) {
+        valueRules.push(rules.fileContentMediaType(schema.contentMediaType));
+    }
+    if (schema.contentEncoding != undefined) {
+        valueRules.push(rules.fileContentEncoding(schema.contentEncoding));
+    }
+    if (schema.allOf) {
+        valueRules.push(rules.allOf(...schema.allOf.map(subSchemaRule)));
+    }
+    if (schema.anyOf) {
+        valueRules.push(rules.anyOf(...schema.anyOf.map(subSchemaRule)));
+    }
+    if (schema.not) {
+        valueRules.push(rules.not(subSchemaRule(schema.not)));
+    }
+    return valueRules;
+}
+
+/**
+ * A single rule for a nested schema, e.g. one option of an 'anyOf'
+ */
+function subSchemaRule(schema: JsonSchema): rules.Rule<any> {
+    const nested = valueRules(schema);
+    return nested.length == 1 ? nested[0] : rules.allOf(...nested);
+}
+
+function arrayRules(schema: JsonSchema): rules.Rule<any>[] {
+    const arrayRules: rules.Rule<any>[] = [];
+    if (schema.minItems != undefined) {
+        arrayRules.push(rules.minItems(schema.minItems));
+    }
+    if (schema.maxItems != undefined) {
+        arrayRules.push(rules.maxItems(schema.maxItems));
+    }
+    return arrayRules;
+}
+
+function unknownRules(schema: JsonSchema): rules.Rule<any>[] {
+    return Object.keys(schema)
+        .filter(
+            (keyword) =>
+                keyword.indexOf("x-") != 0 &&
+                annotationKeywords.indexOf(keyword) == -1 &&
+                constraintKeywords.indexOf(keyword) == -1
+        )
+        .map((keyword) => rules.unknown(keyword, schema[keyword]));
+}
+
+/**
+ * Resolve local '#/definitions/..' and '#/$defs/..' references
+ */
+function resolveRef(root: JsonSchema, schema: JsonSchema, seen: string[] = []): JsonSchema {
+    const ref = schema.$ref;
+    if (!ref) {
+        return schema;
+    }
+    if (ref.indexOf("#/") != 0) {
+        log.warn(`Only local schema refs are supported, ignoring '${ref}'`);
+        return _.omit(schema, "$ref");
+    }
+    if (seen.indexOf(ref) != -1) {
+        throw new Error(`Circular schema ref '${ref}'`);
+    }
+    const target = _.get(root, ref.substring(2).split("/"));
+    if (!target) {
+        throw new Error(`Could not resolve schema ref '${ref}'`);
+    }
+    // sibling keywords override the referenced schema
+    return { ...resolveRef(root, target, [...seen, ref]), ..._.omit(schema, "$ref") };
+}
+
+/**
+ * Return the property type for the given schema. Exposed for tools building properties by hand
+ */
+export function propertyTypeFromJsonSchema(schema: JsonSchema): string {
+    return toPropertyType(schema, schema);
+}
+
+const typeToSchema: { [type: string]: JsonSchema } = {
+    string: { type: "string" },
+    "string:email": { type: "string", format: "email" },
+    "string:id": { type: "string", format: "uuid" },
+    "string:password": { type: "string", format: "password" },
+    "string:multiline": { type: "string", format: "multiline" },
+    date: { type: "string", format: "date" },
+    "date:time": { type: "string", format: "date-time" },
+    number: { type: "number" },
+    "number:integer": { type: "integer" },
+    boolean: { type: "boolean" },
+    enum: {},
+    file: { type: "string" },
+    "file:text": { type: "string", contentMediaType: "text/plain" },
+    "file:text:csv": { type: "string", contentMediaType: "text/csv" },
+    "file:binary": { type: "string", contentEncoding: "base64" },
+};
+
+/**
+ * Rules which map directly onto a schema keyword. The value is read from the rule 'expects'
+ */
+const ruleToKeyword: { [ruleKey: string]: { keyword: string; expect: string } } = {
+    "string:minLength": { keyword: "minLength", expect: "min" },
+    "string:maxLength": { keyword: "maxLength", expect: "max" },
+    "string:pattern": { keyword: "pattern", expect: "pattern" },
+    "string:oneOf": { keyword: "enum", expect: "values" },
+    "number:min": { keyword: "minimum", expect: "min" },
+    "number:max": { keyword: "maximum", expect: "max" },
+    "list:minItems": { keyword: "minItems", expect: "min" },
+    "list:maxItems": { keyword: "maxItems", expect: "max" },
+    "file:contentMediaType": { keyword: "contentMediaType", expect: "mediaType" },
+    "file:contentEncoding": { keyword: "contentEncoding", expect: "encoding" },
+};
+
+/**
+ * Describe the given form as a JSON Schema, so backend validators and API docs can be derived from the same
+ * definition. Rules with a matching schema keyword are mapped onto it, the rest are listed under 'x-rules'. UI only
+ * settings are written as 'x-masked', 'x-hint', 'x-hidden' and 'x-remember' extensions
+ *
+ * @param form the form to describe
+ * @param opts include the '$schema' declaration (default true)
+ */
+export function formToJsonSchema(form: PropertiesForm, opts: { includeSchemaVersion?: boolean } = {}): JsonSchema {
+    const schema = formSchema(form);
+    if (opts.includeSchemaVersion == false) {
+        return schema;
+    }
+    return { $schema: "http://json-schema.org/draft-07/schema#", $id: form.$formName, ...schema };
+}
+
+function formSchema(form: PropertiesForm): JsonSchema {
+    const properties: { [name: string]: JsonSchema } = {};
+    const required: string[] = [];
+    form.$properties.forEach((p) => {
+        properties[p.name] = propertySchema(p);
+        if (p.required) {
+            required.push(p.name);
+        }
+    });
+    form.$subForms.forEach((f) => {
+        properties[f.$formName] = formSchema(f);
+    });
+    const schema: JsonSchema = { type: "object", title: form.$title, properties };
+    if (required.length > 0) {
+        schema.required = required;
+    }
+    return schema;
+}
+
+function propertySchema(property: FormProperty<any>): JsonSchema {
+    const schema: JsonSchema =
+        property instanceof FormArray
+            ? { type: "array", items: formSchema(property.template) }
+            : { ...schemaForType(property.valueType) };
+    if (property.label != property.name) {
+        schema.title = property.label;
+    }
+    if (property.description != undefined) {
+        schema.description = property.description;
+    }
+    if (property.defaultValue != undefined && !(property instanceof FormArray && property.defaultValue.length == 0)) {
+        schema.default = property.defaultValue;
+    }
+    if (property.readonly) {
+        schema.readOnly = true;
+    }
+    property.rules.forEach((rule) => applyRule(schema, rule));
+    if (property.masked) {
+        schema["x-masked"] = true;
+    }
+    if (property.hint != undefined) {
+        schema["x-hint"] = property.hint;
+    }
+    if (property.hidden) {
+        schema["x-hidden"] = true;
+    }
+    if (property.remember) {
+        schema["x-remember"] = true;
+    }
+    return schema;
+}
+
+function schemaForType(type: string): JsonSchema {
+    const collection = /^(List|Set|Array)<(.+)>$/.exec(type);
+    if (collection) {
+        const schema: JsonSchema = { type: "array", items: schemaForType(collection[2]) };
+        if (collection[1] == "Set") {
+            schema.uniqueItems = true;
+        }
+        return schema;
+    }
+    if (type == "List" || type == "Array") {
+        return { type: "array" };
+    }
+    return _.cloneDeep(typeToSchema[type] || typeToSchema.string);
+}
+
+function applyRule(schema: JsonSchema, rule: rules.Rule<any>) {
+    const expects = rule.expects || {};
+    const mapping = ruleToKeyword[rule.key];
+    if (mapping) {
+        schema[mapping.keyword] = expects[mapping.expect];
+        return;
+    }
+    switch (rule.key) {
+        case "required":
+            // added to the parent 'required' list
+            return;
+        case "string:email":
+            schema.format = "email";
+            return;
+        case "string:password":
+            schema.format = "password";
+            return;
+        case "list:all":
+        case "each": {
+            const items = schema.items || {};
+            (rule.rules || []).forEach((itemRule) => applyRule(items, itemRule));
+            schema.items = items;
+            return;
+        }
+        case "allOf":
+        case "optional":
+            // absent values are never checked against the schema, so optional rules apply as is
+            (rule.rules || []).forEach((nested) => applyRule(schema, nested));
+            return;
+        case "anyOf":
+            schema.anyOf = (rule.rules || []).map((nested) => ruleSchema(nested));
+            return;
+        case "not":
+            schema.not = ruleSchema((rule.rules || [])[0]);
+            return;
+        case "unknown":
+            schema[expects.constraintKey] = expects.constraintVal;
+            return;
+    }
+    const extensions = schema["x-rules"] || [];
+    extensions.push({ key: rule.key, expects: serializableExpects(expects) });
+    schema["x-rules"] = extensions;
+}
+
+/**
+ * The schema for a single nested rule, e.g. one option of an 'anyOf'
+ */
+function ruleSchema(rule: rules.Rule<any>): JsonSchema {
+    const schema: JsonSchema = {};
+    applyRule(schema, rule);
+    return schema;
+}
+
+function serializableExpects(expects: { [key: string]: any }): { [key: string]: any } {
+    return _.omitBy(expects, (value) => typeof value === "function" || value instanceof RegExp || value == undefined);
+}
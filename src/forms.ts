@@ -1,32 +1,30 @@
 import { EventEmitter2 } from "eventemitter2";
 import _ from "lodash";
+import * as converters from "./converters";
+import { Command, CommandResponse, CqrsApi } from "./cqrs";
+import { CsvParseOptions } from "./csv";
 import * as events from "./events";
+import * as files from "./files";
+import { FormLayout } from "./forms.layout";
+import { OptionsProvider, OptionsSpec, toOptionsProvider } from "./forms.options";
+import * as i18n from "./i18n";
 import { getLogger } from "./logger";
 import * as rules from "./rules";
+import * as asyncRules from "./rules.async";
+import { AsyncStorageProvider, NullStorageProvider, StorageProvider } from "./storage";
+import { CsvTextFile } from "./types";
 import * as vue_tools from "./vue-tools";
 
 const log = getLogger("forms");
 
 const propertyLog = getLogger("forms.FormProperty");
 
-export interface StorageProvider {
-    getValue(key: string): string | undefined;
-    setValue(key: string, value: string | undefined): void;
-    removeValue(key: string): void;
-}
-
-export class NullStorageProvider implements StorageProvider {
-    getValue(): string | undefined {
-        return undefined;
-    }
-    setValue(): void {}
-    removeValue() {}
-}
+export { NullStorageProvider, StorageProvider };
 
 let storage: StorageProvider = new NullStorageProvider();
 
 /**
- * Set the storage provider to us. If undefined then use a no op one
+ * Set the default storage provider, used by forms which weren't given their own. If undefined then use a no op one
  *
  *  @param provider Set the storage provider to us
  */
@@ -34,10 +32,10 @@ export function setStorageProvider(provider?: StorageProvider) {
     log.debug("set local storage provider", provider);
     storage = provider || new NullStorageProvider();
 }
-/**
- * Used by the auto forma layout engine
- */
 
+export function getStorageProvider(): StorageProvider {
+    return storage;
+}
 /**
  * Defines a basic form to display in a UI. Allproeprties are prefixed with '$' to prevtn any clashes
  * with property name on the models
@@ -85,6 +83,194 @@ export interface PropertiesForm extends Form {
     readonly $properties: FormProperty<any>[];
 }
 
+/**
+ * Listeners still registered for one of a form's events, see '$leaks'
+ */
+export interface FormLeak {
+    /**
+     * The form name, prefixed by any parent form names. E.g. 'order.address' or 'order.lines[0]'
+     */
+    readonly formName: string;
+    readonly event: string;
+    /**
+     * How many listeners are still registered on the form's emitter for the event
+     */
+    listeners: number;
+    /**
+     * Ids of the tracked subscriptions still live for the event
+     */
+    readonly subscriptions: string[];
+}
+
+/**
+ * The outcome of validating a form, its properties and sub forms
+ */
+export interface FormValidationResult {
+    readonly formName: string;
+    /**
+     * True if there are no 'error' issues in this form or any sub forms
+     */
+    readonly valid: boolean;
+    /**
+     * True if any async property rules or file content loads are still pending. Their results are not included
+     */
+    readonly pending: boolean;
+    /**
+     * Issues raised by the form level rules
+     */
+    readonly formIssues: rules.ValidationIssue[];
+    /**
+     * Issues per property, keyed by property name
+     */
+    readonly properties: { [name: string]: rules.ValidationIssue[] };
+    readonly subForms: FormValidationResult[];
+}
+
+/**
+ * Return all the issues in the given result, including sub forms. Sub form issue paths are prefixed with the
+ * sub form name. Useful for displaying a summary of all the problems
+ *
+ * @param result the validation result
+ */
+export function flattenIssues(result: FormValidationResult): rules.ValidationIssue[] {
+    const issues: rules.ValidationIssue[] = [...result.formIssues];
+    _.forEach(result.properties, (propertyIssues) => issues.push(...propertyIssues));
+    result.subForms.forEach((subResult) => {
+        flattenIssues(subResult).forEach((issue) => {
+            issues.push({ ...issue, path: [subResult.formName, ...issue.path] });
+        });
+    });
+    return issues;
+}
+
+/**
+ * The saved state of a single property. Values are stored using the property's converter, so a snapshot
+ * survives a round trip through JSON
+ */
+export interface FormPropertySnapshot {
+    value?: string;
+    pristineValue?: string;
+    touched: boolean;
+    issues: rules.ValidationIssue[];
+    serverIssues: rules.ValidationIssue[];
+    /**
+     * The row snapshots of a FormArray
+     */
+    rows?: FormSnapshot[];
+}
+
+/**
+ * The saved state of a form, its properties and sub forms. See PropertiesForm.$snapshot
+ */
+export interface FormSnapshot {
+    /**
+     * The snapshot format version, see FORM_SNAPSHOT_VERSION
+     */
+    version: number;
+    formName: string;
+    valid: boolean;
+    showValidationErrors: boolean;
+    formErrors: string[];
+    serverIssues: rules.ValidationIssue[];
+    /**
+     * Property state keyed by property name. Masked properties are only included if asked for
+     */
+    properties: { [name: string]: FormPropertySnapshot };
+    subForms: FormSnapshot[];
+}
+
+export interface FormSnapshotOptions {
+    /**
+     * Include masked (e.g. password) values, including in sub forms and array rows. Left out by default
+     */
+    includeMasked?: boolean;
+}
+
+/**
+ * The current snapshot format version. Bumped whenever the format changes incompatibly
+ */
+export const FORM_SNAPSHOT_VERSION = 1;
+
+/**
+ * Where a form is in the submit pipeline
+ */
+export type FormSubmitState = "idle" | "invalid" | "submitting" | "submitted" | "failed";
+
+export interface FormSubmitOptions<TPayload> {
+    /**
+     * The api to send the command to
+     */
+    api: CqrsApi;
+    /**
+     * Build the command payload. Defaults to the form '$values()'
+     */
+    toPayload?: (form: PropertiesForm) => TPayload;
+    /**
+     * Build the command to send from the payload
+     */
+    toCommand: (payload: TPayload, form: PropertiesForm) => Command<TPayload>;
+    /**
+     * Called with the response once the command succeeds
+     */
+    onResponse?: (response: CommandResponse, form: PropertiesForm) => void;
+}
+
+/**
+ * A field error returned by the server. Server errors carry these in 'AppError.extendedInfo' as either
+ * 'fieldErrors: { [path]: message | message[] }' or 'errors: [{ path, message, key? }]'. Paths are property
+ * names, prefixed by sub form names for nested properties, e.g. 'address.street'
+ */
+export interface ServerFieldError {
+    path: string | Array<string | number>;
+    message: string;
+    key?: string;
+}
+
+/**
+ * Extract any field errors from an error returned by the server
+ *
+ * @param err the (usually AppError) error
+ */
+export function serverFieldErrors(err: any): ServerFieldError[] {
+    const info = err ? err.extendedInfo || err.data : undefined;
+    if (!info) {
+        return [];
+    }
+    const fieldErrors: ServerFieldError[] = [];
+    _.forEach(info.fieldErrors, (messages: string | string[], path: string) => {
+        _.castArray(messages).forEach((message) => fieldErrors.push({ path, message }));
+    });
+    if (Array.isArray(info.errors)) {
+        info.errors.forEach((e: any) => {
+            if (e && e.path != undefined && e.message != undefined) {
+                fieldErrors.push({ path: e.path, message: e.message, key: e.key });
+            }
+        });
+    }
+    return fieldErrors;
+}
+
+/**
+ * Set the flag on the form, its sub forms and any form array rows
+ */
+function setShowValidationErrors(form: PropertiesForm, flag: boolean) {
+    form.$showValidationErrors = flag;
+    form.$subForms.forEach((f) => setShowValidationErrors(f, flag));
+    form.$properties.forEach((p) => {
+        if (p instanceof FormArray) {
+            p.rows.forEach((row) => setShowValidationErrors(row, flag));
+        }
+    });
+}
+
+function hasErrors(issues: rules.ValidationIssue[]): boolean {
+    return _.find(issues, (issue) => issue.severity == "error") != undefined;
+}
+
+function errorMessages(issues: rules.ValidationIssue[]): string[] {
+    return issues.filter((issue) => issue.severity == "error").map((issue) => issue.message);
+}
+
 type EmitterFactory = () => EventEmitter2;
 
 let defaultEmitterFactory: EmitterFactory = (maxListeners = 50) =>
@@ -111,30 +297,135 @@ export class PropertiesForm implements PropertiesForm {
     readonly $afterValidatedEvent = formAfterValidatedEvent.withEmmitter(this.$events);
 
     readonly $propertyChangeEvent = formPropertyChangedEvent.withEmmitter(this.$events);
+    /**
+     * Subscriptions made by this form and its properties, cancelled on '$dispose'. Add any others which should
+     * live as long as the form
+     */
+    readonly $subscriptions: events.SubscriptionGroup;
+    /**
+     * Undo/redo history of this form's property changes. Sub forms keep their own history
+     */
+    readonly $history: FormHistory;
 
     $subForms: PropertiesForm[] = [];
+    /**
+     * How to lay the form out. Used by the auto form layout engine, see forms.render
+     */
+    $layout?: FormLayout;
+
+    /**
+     * Where this form's remembered property values are stored. If not set the default provider is used (see
+     * setStorageProvider)
+     */
+    private readonly _storage?: StorageProvider;
+    /**
+     * Used instead of '_storage' when set, for async stores and ciphers
+     */
+    private readonly _asyncStorage?: AsyncStorageProvider;
+    /**
+     * The saving of the remembered values on the last submit
+     */
+    private _saving?: Promise<void>;
 
-    constructor(opts: { title: string; formName: string; rules?: rules.ValidationRule[] }) {
+    constructor(opts: {
+        title: string;
+        formName: string;
+        rules?: rules.ValidationRule[];
+        storage?: StorageProvider;
+        /**
+         * Store the remembered values in an async provider instead, e.g. over an IndexedDbStore or to encrypt masked
+         * values with webCryptoStorageCipher. Values are loaded in the background, see $settle
+         */
+        asyncStorage?: AsyncStorageProvider;
+        layout?: FormLayout;
+    }) {
         this.$formName = opts.formName;
         this.$title = opts.title;
         this.$rules = opts.rules || [];
+        this.$layout = opts.layout;
+        this._storage = opts.storage;
+        this._asyncStorage = opts.asyncStorage;
         //seems cto doesnt work??
         this.$events.setMaxListeners(50);
+        this.$subscriptions = new events.SubscriptionGroup(this.$formName);
+        this.$history = new FormHistory(this);
+        // only this form's submit saves its remembered values. Sub forms are submitted (and save) separately
+        this.$subscriptions.subscribe(this.$submitEvent, () => this.saveRemembered());
+        // re-run any cross field rules which read the changed property
+        this.$subscriptions.subscribe(this.$propertyChangeEvent, (event) =>
+            this.revalidateDependents(event.args.property.name)
+        );
+        // synchronously, so computed values and the visible/enabled state are never stale
+        this.$subscriptions.subscribe(this.$propertyChangeEvent.withOptions({}), (event) => {
+            this.recomputeDependents(event.args.property.name);
+            this.$evaluateConditions();
+        });
     }
 
     /** Fiddled with during runtime validation */
     $valid: boolean = false;
     $formErrors: string[] = [];
     $showValidationErrors: boolean = false;
+    /**
+     * Form level errors returned by the server on the last submit, which didn't match any property
+     */
+    $serverIssues: rules.ValidationIssue[] = [];
+    $submitState: FormSubmitState = "idle";
+    /**
+     * The error from the last failed submit
+     */
+    $submitError?: any;
 
     newProperty<T>(opts: Omit<FormPropertyOptions, "form">): FormProperty<T> {
         const p = new FormProperty<T>(_.merge({}, opts, { form: this }));
         this.$properties.push(p);
+        this.initComputed(p);
+        this.$evaluateConditions();
+        return p;
+    }
+
+    /**
+     * Add a repeatable list of rows, each row a clone of the given template form
+     */
+    newFormArray(opts: Omit<FormArrayOptions, "form">): FormArray {
+        const p = new FormArray({ ...opts, form: this });
+        this.$properties.push(p);
+        this.initComputed(p);
+        this.$evaluateConditions();
         return p;
     }
 
+    /**
+     * Return the property with the given name, or undefined if there is no such property
+     */
+    $property<T = any>(name: string): FormProperty<T> | undefined {
+        return _.find(this.$properties, (p) => p.name == name);
+    }
+
+    /**
+     * Add a rule which reads other properties (see the cross field rules) to the named target property. Any
+     * errors are reported against the target property
+     *
+     * @param targetName the property the rule validates
+     * @param rule the rule to add
+     */
+    addCrossFieldRule(targetName: string, rule: rules.Rule<any>): this {
+        const target = this.$property(targetName);
+        if (!target) {
+            throw new Error(`No property '${targetName}' in form '${this.$formName}'`);
+        }
+        target.rules.push(rule);
+        return this;
+    }
+
     addSubForm(form: PropertiesForm) {
-        //TODO:check not already added?
+        if (this.$subForms.indexOf(form) != -1) {
+            throw new Error(`Sub form '${form.$formName}' already added to form '${this.$formName}'`);
+        }
+        // sub form values are keyed by form name, so the names need to be unique
+        if (_.some(this.$subForms, (f) => f.$formName == form.$formName)) {
+            throw new Error(`Form '${this.$formName}' already has a sub form named '${form.$formName}'`);
+        }
         this.$subForms.push(form);
     }
 
@@ -157,23 +448,136 @@ export class PropertiesForm implements PropertiesForm {
     }
 
     clone(opts: { title?: string }): PropertiesForm {
-        const formOpts = _.merge({ title: this.$title, formName: this.$formName, rules: [...this.$rules] }, opts);
+        const formOpts = _.merge(
+            {
+                title: this.$title,
+                formName: this.$formName,
+                rules: [...this.$rules],
+                storage: this._storage,
+                asyncStorage: this._asyncStorage,
+                layout: _.cloneDeep(this.$layout),
+            },
+            opts
+        );
 
         const form = new PropertiesForm(formOpts);
         this.$properties.forEach((p) => {
             form.$properties.push(p.clone({ form: form }));
         });
+        form.$properties.forEach((p) => form.initComputed(p));
+        form.$evaluateConditions();
         this.$subForms.forEach((f) => {
             form.addSubForm(f.clone({}));
         });
         return form;
     }
 
+    /**
+     * The provider this form's remembered values are stored in
+     */
+    get $storage(): StorageProvider {
+        return this._storage || storage;
+    }
+
+    /**
+     * The async provider this form's remembered values are stored in, if it was given one. Takes precedence over
+     * '$storage'
+     */
+    get $asyncStorage(): AsyncStorageProvider | undefined {
+        return this._asyncStorage;
+    }
+
+    /**
+     * Remove the stored values of all the remembered properties in this form and its sub forms. The current values
+     * are left as is. Resolves once removed, which only takes any time with async storage
+     */
+    $clearRemembered(): Promise<void> {
+        const cleared: Promise<void>[] = [];
+        this.invokeSubForms((f) => cleared.push(f.$clearRemembered()));
+        this.$properties.filter((p) => p.remember).forEach((p) => cleared.push(p.clearLocalStore()));
+        return Promise.all(cleared).then(_.noop);
+    }
+
+    /**
+     * Resolves once the remembered values saved by the last submit, of this form and its sub forms, are stored.
+     * Save errors are logged rather than rejected
+     */
+    async $saved(): Promise<void> {
+        await Promise.all([this._saving, ...this.$subForms.map((f) => f.$saved())]);
+    }
+
+    /**
+     * Stop listening to events, so the form can be garbage collected. Cancels the subscriptions of this form, its
+     * properties and sub forms, and any pending async validation. Listeners which weren't tracked (e.g. added via
+     * an event's 'on') and are still registered afterwards are logged as leaks
+     */
+    $dispose() {
+        this.invokeSubForms((f) => f.$dispose());
+        this.$properties.forEach((p) => p.dispose());
+        this.$subscriptions.dispose();
+        const leaks = this.ownLeaks(this.$formName);
+        if (leaks.length > 0) {
+            log.warn(`Form '${this.$formName}' still has live listeners after being disposed`, leaks);
+        }
+    }
+
+    get $disposed(): boolean {
+        return this.$subscriptions.disposed;
+    }
+
+    /**
+     * The listeners still live on this form, its sub forms and form array rows. After '$dispose' anything reported
+     * is a leak
+     */
+    $leaks(): FormLeak[] {
+        return this.collectLeaks(this.$formName);
+    }
+
+    private collectLeaks(formName: string): FormLeak[] {
+        const leaks = this.ownLeaks(formName);
+        this.$subForms.forEach((f) => leaks.push(...f.collectLeaks(`${formName}.${f.$formName}`)));
+        this.$properties.forEach((p) => {
+            if (p instanceof FormArray) {
+                p.rows.forEach((row, i) => leaks.push(...row.collectLeaks(`${formName}.${p.name}[${i}]`)));
+            }
+        });
+        return leaks;
+    }
+
+    private ownLeaks(formName: string): FormLeak[] {
+        const byEvent: { [event: string]: FormLeak } = {};
+        const leakFor = (event: string) =>
+            byEvent[event] || (byEvent[event] = { formName, event, listeners: 0, subscriptions: [] });
+        _.forEach(events.liveListeners(this.$events), (count, event) => (leakFor(event).listeners = count));
+        this.$subscriptions.live.forEach((s) => leakFor(s.eventName).subscriptions.push(s.id));
+        return _.values(byEvent);
+    }
+
+    private saveRemembered() {
+        const saves = this.$properties
+            .filter((p) => p.remember)
+            .map((p) => {
+                const warn = (err: any) =>
+                    log.warn(
+                        `Error saving property '${p.fullname}' to local store using key '${p.localStorageKey}'`,
+                        err
+                    );
+                try {
+                    return p.saveToLocalStore().catch(warn);
+                } catch (err) {
+                    warn(err);
+                    return Promise.resolve();
+                }
+            });
+        this._saving = Promise.all(saves).then(_.noop);
+    }
+
     /**
      * see https://vuejs.org/v2/guide/reactivity.html#Change-Detection-Caveats
      */
     $clearErrors() {
         this.invokeSubForms((f) => f.$clearErrors());
+        this.$properties.forEach((p) => p.clearErrors());
         vue_tools.emptyArray(this.$formErrors);
         this.$clearErrorsEvent.emit({ form: this });
     }
@@ -183,6 +587,40 @@ export class PropertiesForm implements PropertiesForm {
         this.$cancelEvent.emit({ form: this });
     }
 
+    /**
+     * True if any property value differs from its pristine value, including sub form properties
+     */
+    get $dirty(): boolean {
+        return _.some(this.$properties, (p) => p.dirty) || _.some(this.$subForms, (f) => f.$dirty);
+    }
+
+    /**
+     * True if the user has touched any property, including sub form properties
+     */
+    get $touched(): boolean {
+        return _.some(this.$properties, (p) => p.touched) || _.some(this.$subForms, (f) => f.$touched);
+    }
+
+    /**
+     * Take the current values as the pristine values (e.g. after saving). Clears the history
+     */
+    $markPristine() {
+        this.$properties.forEach((p) => p.markPristine());
+        this.invokeSubForms((f) => f.$markPristine());
+        this.$history.clear();
+    }
+
+    $undo(): boolean {
+        return this.$history.undo();
+    }
+
+    $redo(): boolean {
+        return this.$history.redo();
+    }
+
+    /**
+     * Restore all the properties to their last pristine values
+     */
     $reset() {
         this.$properties.forEach((p) => {
             p.reset();
@@ -191,20 +629,188 @@ export class PropertiesForm implements PropertiesForm {
         this.$resetEvent.emit({ form: this });
     }
 
+    /**
+     * Capture the values, validation and dirty state of this form and all sub forms, e.g. to autosave a draft.
+     * The result is plain JSON
+     *
+     * @param opts set 'includeMasked' to include masked (e.g. password) values, which are left out by default
+     */
+    $snapshot(opts: FormSnapshotOptions = {}): FormSnapshot {
+        const properties: { [name: string]: FormPropertySnapshot } = {};
+        this.$properties.forEach((p) => {
+            if (!p.masked || opts.includeMasked) {
+                properties[p.name] = p.snapshot(opts);
+            }
+        });
+        return {
+            version: FORM_SNAPSHOT_VERSION,
+            formName: this.$formName,
+            valid: this.$valid,
+            showValidationErrors: this.$showValidationErrors,
+            formErrors: [...this.$formErrors],
+            serverIssues: this.$serverIssues.map((issue) =>
+                isMaskedPath(this, issue.path) && !opts.includeMasked ? { ...issue, actual: undefined } : { ...issue }
+            ),
+            properties,
+            subForms: this.$subForms.map((f) => f.$snapshot(opts)),
+        };
+    }
+
+    /**
+     * Restore the state captured by '$snapshot'. No change events are fired and the undo history is cleared.
+     * Properties and sub forms which no longer exist are skipped, properties missing from the snapshot are left
+     * as is
+     *
+     * @param snapshot the snapshot to restore
+     */
+    $restore(snapshot: FormSnapshot) {
+        if (!snapshot || snapshot.version == undefined || snapshot.version > FORM_SNAPSHOT_VERSION) {
+            throw new Error(
+                `Unsupported snapshot version '${snapshot && snapshot.version}' for form '${this.$formName}'` +
+                    `, expect up to ${FORM_SNAPSHOT_VERSION}`
+            );
+        }
+        if (snapshot.formName != this.$formName) {
+            throw new Error(`Snapshot is for form '${snapshot.formName}', not form '${this.$formName}'`);
+        }
+        // properties read this when restoring their displayed errors
+        this.$showValidationErrors = snapshot.showValidationErrors;
+        _.forEach(snapshot.properties, (propertySnapshot, name) => {
+            const property = this.$property(name);
+            if (property) {
+                property.restore(propertySnapshot);
+            } else {
+                log.warn(`No property '${name}' in form '${this.$formName}', skipping its snapshot`);
+            }
+        });
+        snapshot.subForms.forEach((subSnapshot, i) => {
+            const subForm = this.$subForms[i];
+            if (subForm && subForm.$formName == subSnapshot.formName) {
+                subForm.$restore(subSnapshot);
+            } else {
+                log.warn(`No sub form '${subSnapshot.formName}' in form '${this.$formName}', skipping its snapshot`);
+            }
+        });
+        this.$valid = snapshot.valid;
+        vue_tools.replaceArray(this.$formErrors, snapshot.formErrors);
+        vue_tools.replaceArray(this.$serverIssues, snapshot.serverIssues);
+        this.$history.clear();
+        this.$evaluateConditions();
+    }
+
+    /**
+     * Re-evaluate the property 'visibleWhen', 'enabledWhen' and 'requiredWhen' conditions against the form
+     * values. Called whenever a property changes. Repeated until the state settles, as hiding a property removes
+     * its value from the values the other conditions see
+     */
+    $evaluateConditions() {
+        if (!_.some(this.$properties, (p) => p.hasConditions())) {
+            return;
+        }
+        const maxPasses = this.$properties.length + 1;
+        for (let pass = 0; pass < maxPasses; pass++) {
+            const values = this.$values();
+            const changed = this.$properties.filter((p) => p.evaluateConditions(values));
+            if (changed.length == 0) {
+                return;
+            }
+            // so newly required or visible properties show their errors
+            changed.forEach((p) => p.validate());
+        }
+        log.warn(`Property conditions in form '${this.$formName}' did not settle after ${maxPasses} passes`);
+    }
+
+    /**
+     * The current property values keyed by property name, which is also what is submitted. Sub form values are
+     * keyed by their form name. Properties hidden by their 'visibleWhen' condition are left out
+     */
+    $values(): { [name: string]: any } {
+        const values: { [name: string]: any } = {};
+        this.$properties.forEach((p) => {
+            if (p.visible) {
+                values[p.name] = p.value;
+            }
+        });
+        this.$subForms.forEach((f) => {
+            values[f.$formName] = f.$values();
+        });
+        return values;
+    }
+
+    /**
+     * Show or hide the validation errors for this form and all sub forms
+     */
+    $setShowValidationErrors(flag = true) {
+        setShowValidationErrors(this, flag);
+        this.$validate();
+    }
+
     $setReadonly(flag = true) {
         this.$properties.forEach((p) => {
             p.readonly = flag;
         });
     }
 
-    $validate() {
-        //TODO: call each property validate
-        this.invokeSubForms((f) => f.$validate());
-        this.$validateEvent.emit({ form: this });
+    /**
+     * Run all the property rules, the form level rules (against the form '$values()'), and validate all the sub
+     * forms. Updates '$valid', '$formErrors' and the property errors. Error messages are only populated if
+     * '$showValidationErrors' is set, so the form can be validated silently as the user types
+     */
+    $validate(): FormValidationResult {
+        const properties: { [name: string]: rules.ValidationIssue[] } = {};
+        let pending = false;
+        this.$properties.forEach((p) => {
+            properties[p.name] = p.validate();
+            pending = pending || p.pending;
+        });
+        const formIssues = [...rules.validateAll(this.$rules, this.$values()), ...this.$serverIssues];
+        const subForms = this.$subForms.map((f) => f.$validate());
+
+        const valid =
+            !hasErrors(formIssues) &&
+            _.every(properties, (issues) => !hasErrors(issues)) &&
+            _.every(subForms, (r) => r.valid);
+        this.$valid = valid;
+        vue_tools.replaceArray(this.$formErrors, this.$showValidationErrors ? errorMessages(formIssues) : []);
+
+        const result: FormValidationResult = {
+            formName: this.$formName,
+            valid,
+            pending: pending || _.some(subForms, (r) => r.pending),
+            formIssues,
+            properties,
+            subForms,
+        };
+        this.$validateEvent.emit({ form: this, result });
+        return result;
+    }
+
+    /**
+     * True while any async property rules or file content loads (including in sub forms and array rows) are
+     * outstanding
+     */
+    get $pending(): boolean {
+        return _.some(this.$properties, (p) => p.pending) || _.some(this.$subForms, (f) => f.$pending);
+    }
+
+    /**
+     * Resolves once all the async property rules, file content loads and remembered value loads (including in sub
+     * forms and array rows) have completed. See FormProperty.settle
+     */
+    async $settle(): Promise<void> {
+        await Promise.all([...this.$properties.map((p) => p.settle()), ...this.$subForms.map((f) => f.$settle())]);
+    }
+
+    /**
+     * Validate once all the pending async rules and content loads have completed, so the result is final unless
+     * a value changed meanwhile
+     */
+    async $validateAsync(): Promise<FormValidationResult> {
+        await this.$settle();
+        return this.$validate();
     }
 
     $afterValidated() {
-        //TODO: call each property validate
         this.invokeSubForms((f) => f.$afterValidated());
         this.$afterValidatedEvent.emit({ form: this });
     }
@@ -219,13 +825,172 @@ export class PropertiesForm implements PropertiesForm {
         this.$submitEvent.emit({ form: this });
     }
 
-    private invokeSubForms(invoker: (form: PropertiesForm) => void) {
-        if (this.$subForms.length == 0) {
-            return;
-        }
-        this.$subForms.forEach((f) => invoker(f));
+    get $submitting(): boolean {
+        return this.$submitState == "submitting";
     }
-}
+
+    get $submitted(): boolean {
+        return this.$submitState == "submitted";
+    }
+
+    get $failed(): boolean {
+        return this.$submitState == "failed";
+    }
+
+    /**
+     * Run the submit pipeline: validate (waiting for any pending async rules and file content loads), '$beforeSubmit',
+     * build the command from the form values, invoke it and apply the response. Resolves to undefined if the form is
+     * invalid. If the command fails, any field errors in the error are applied to the matching properties and the
+     * error is rethrown. Any failure, including while validating, leaves the form in the 'failed' state
+     *
+     * @param opts how to build and send the command
+     */
+    async $submitCommand<TPayload = { [name: string]: any }>(
+        opts: FormSubmitOptions<TPayload>
+    ): Promise<CommandResponse | undefined> {
+        if (this.$submitting) {
+            throw new Error(`Form '${this.$formName}' is already submitting`);
+        }
+        // set first, so a second submit can't start while validating or building the command
+        this.$submitState = "submitting";
+        this.$submitError = undefined;
+        let response: CommandResponse;
+        try {
+            this.clearServerErrors();
+            this.$setShowValidationErrors(true);
+            const result = await this.$validateAsync();
+            if (!result.valid || result.pending) {
+                this.$submitState = "invalid";
+                return undefined;
+            }
+            this.$beforeSubmit();
+            const payload = opts.toPayload ? opts.toPayload(this) : ((this.$values() as any) as TPayload);
+            const command = opts.toCommand(payload, this);
+            try {
+                response = await opts.api.command(command);
+            } catch (err) {
+                this.$applyServerErrors(err);
+                throw err;
+            }
+        } catch (err) {
+            log.debug(`submit of form '${this.$formName}' failed`, err);
+            this.$submitState = "failed";
+            this.$submitError = err;
+            throw err;
+        }
+        this.$submitState = "submitted";
+        this.$submit();
+        await this.$saved();
+        if (opts.onResponse) {
+            opts.onResponse(response, this);
+        }
+        return response;
+    }
+
+    /**
+     * Apply the field errors in the given server error to the matching properties (including sub form properties).
+     * Errors which don't match a property, or an error without any field errors, are shown as form errors
+     *
+     * @param err the error returned by the server
+     */
+    $applyServerErrors(err: any) {
+        const fieldErrors = serverFieldErrors(err);
+        fieldErrors.forEach((fieldError) => {
+            const path = Array.isArray(fieldError.path) ? fieldError.path : _.toPath(fieldError.path);
+            this.applyServerError(path, {
+                key: fieldError.key || (err && err.key) || "server",
+                expects: {},
+                actual: undefined,
+                severity: "error",
+                message: fieldError.message,
+                path,
+            });
+        });
+        if (fieldErrors.length == 0 && err) {
+            this.$serverIssues.push({
+                key: err.key || "server",
+                expects: {},
+                actual: undefined,
+                severity: "error",
+                message: err.message || `${err}`,
+                path: [],
+            });
+        }
+        this.$validate();
+    }
+
+    private applyServerError(path: Array<string | number>, issue: rules.ValidationIssue) {
+        const [name, ...rest] = path;
+        const property = this.$property(`${name}`);
+        if (property instanceof FormArray && rest.length > 1) {
+            const row = property.rows[Number(rest[0])];
+            if (row) {
+                row.applyServerError(rest.slice(1), issue);
+                return;
+            }
+        }
+        if (property) {
+            property.serverIssues.push({ ...issue, actual: property.value });
+            return;
+        }
+        const subForm = _.find(this.$subForms, (f) => f.$formName == name);
+        if (subForm && rest.length > 0) {
+            subForm.applyServerError(rest, issue);
+            return;
+        }
+        this.$serverIssues.push(issue);
+    }
+
+    private clearServerErrors() {
+        vue_tools.emptyArray(this.$serverIssues);
+        this.$properties.forEach((p) => {
+            vue_tools.emptyArray(p.serverIssues);
+            if (p instanceof FormArray) {
+                p.rows.forEach((row) => row.clearServerErrors());
+            }
+        });
+        this.invokeSubForms((f) => f.clearServerErrors());
+    }
+
+    private recomputeDependents(changedName: string) {
+        this.$properties.forEach((p) => {
+            if (p.computedFrom(changedName)) {
+                p.recompute();
+            }
+        });
+    }
+
+    /**
+     * Compute the initial value of the added property, and any computed properties which depend on it
+     */
+    private initComputed(added: FormProperty<any>, seen: FormProperty<any>[] = []) {
+        if (seen.indexOf(added) != -1) {
+            return;
+        }
+        seen.push(added);
+        added.recompute({ initial: true });
+        this.$properties.forEach((p) => {
+            if (p.computedFrom(added.name)) {
+                this.initComputed(p, seen);
+            }
+        });
+    }
+
+    private revalidateDependents(changedName: string) {
+        this.$properties.forEach((p) => {
+            if (p.name != changedName && p.dependsOn(changedName)) {
+                p.validate();
+            }
+        });
+    }
+
+    private invokeSubForms(invoker: (form: PropertiesForm) => void) {
+        if (this.$subForms.length == 0) {
+            return;
+        }
+        this.$subForms.forEach((f) => invoker(f));
+    }
+}
 
 export interface PropertyConstraint {
     name: string;
@@ -265,7 +1030,11 @@ export module PropertyFlags {
         "string:password": 0 | PropertyFlags.IsValueType | PropertyFlags.IsString,
         "string:multiline": 0 | PropertyFlags.IsValueType | PropertyFlags.IsString,
         date: 0 | PropertyFlags.IsValueType | PropertyFlags.IsDate,
+        "date:time": 0 | PropertyFlags.IsValueType | PropertyFlags.IsDate,
         number: 0 | PropertyFlags.IsValueType | PropertyFlags.IsNumber,
+        "number:integer": 0 | PropertyFlags.IsValueType | PropertyFlags.IsNumber,
+        boolean: 0 | PropertyFlags.IsValueType | PropertyFlags.IsBoolean,
+        FormArray: 0 | PropertyFlags.IsMany | PropertyFlags.IsArray | PropertyFlags.IsList,
         Array: 0 | PropertyFlags.IsValueType | PropertyFlags.IsArray,
         List: 0 | PropertyFlags.IsArray | PropertyFlags.IsList,
         enum: 0 | PropertyFlags.IsValueType | PropertyFlags.IsEnum,
@@ -292,6 +1061,9 @@ export module PropertyFlags {
 export interface FormPropertyOptions {
     form: PropertiesForm;
     name: string;
+    /**
+     * Label to display. Can be a locations key
+     */
     label?: string;
     /**
      * Default value
@@ -305,6 +1077,16 @@ export interface FormPropertyOptions {
      * Validation rules
      */
     rules?: rules.Rule<any>[];
+    /**
+     * Validation rules which need to perform async work (e.g. backend lookups). Run after the value stops
+     * changing for 'debounceMs'
+     */
+    asyncRules?: asyncRules.AsyncRule<any>[];
+    /**
+     * How long to wait after the last value change before running the async rules. Defaults to
+     * FormProperty.DEFAULT_DEBOUNCE_MS
+     */
+    debounceMs?: number;
 
     readonly?: boolean;
 
@@ -329,6 +1111,31 @@ export interface FormPropertyOptions {
      * If true, don't dispaly on ui
      */
     hidden?: boolean;
+    /**
+     * The selectable options, for enum/select properties. A list, a function of the search text, a find query, or
+     * a provider. Once all the options are loaded, a 'oneOf' rule is derived from them
+     */
+    options?: OptionsSpec<any> | OptionsProvider<any>;
+    /**
+     * How to parse 'file:text:csv' values, e.g. mapping the headers to column names and types
+     */
+    csv?: CsvParseOptions & { encoding?: string };
+    /**
+     * Derive the value from other properties. Computed properties are readonly unless 'readonly' is set to false
+     */
+    computed?: ComputedValue;
+    /**
+     * Show the property only while this returns true. Hidden properties are not validated or submitted
+     */
+    visibleWhen?: PropertyCondition;
+    /**
+     * Allow editing only while this returns true
+     */
+    enabledWhen?: PropertyCondition;
+    /**
+     * Require a value only while this returns true. Overrides any static 'required' rule
+     */
+    requiredWhen?: PropertyCondition;
     /**
      * Essentially the tool tip. Can be a locations key
      */
@@ -346,12 +1153,35 @@ export interface FormPropertyOptions {
     tabIndex?: number;
     autoFocus?: boolean;
     /**
-     * Formats a value as it's input
+     * Formats a value as it's input, before it is converted to the property type
      */
     formatter?: PropertyValueFormatter;
+    /**
+     * Converts values to and from the property type. Defaults to the registered converter for the 'type'
+     */
+    converter?: converters.ValueConverter<any>;
 }
 
 export type PropertyValueFormatter = (value: any) => any;
+/**
+ * A condition over the form values (see PropertiesForm.$values), re-evaluated whenever a property changes
+ */
+export type PropertyCondition = (values: { [name: string]: any }, property: FormProperty<any>) => boolean;
+
+/**
+ * A value derived from other properties, e.g. a total from a quantity and a unit price
+ */
+export interface ComputedValue {
+    /**
+     * The names of the properties (in the same form) the value is computed from
+     */
+    dependsOn: string[];
+    /**
+     * Compute the value from the form values (see PropertiesForm.$values). The result is converted to the
+     * property type
+     */
+    compute: (values: { [name: string]: any }, property: FormProperty<any>) => any;
+}
 export type PropertyCloneOptions = Partial<FormPropertyOptions>;
 
 export class FormProperty<TValue> {
@@ -359,23 +1189,40 @@ export class FormProperty<TValue> {
 
     static readonly RULE_REQUIRED_KEY = rules.required().key;
     static readonly STORAGE_DEFAULT_PREFIX = "forms.remember.";
+    static readonly DEFAULT_DEBOUNCE_MS = 300;
 
     private readonly _form: PropertiesForm;
-    private _value?: TValue;
+    protected _value?: TValue;
     private readonly _fullName: string;
     private readonly _name: string;
 
     private _rules: rules.Rule<TValue>[];
+    private readonly _asyncRules: asyncRules.AsyncRule<TValue>[];
+    private _asyncCheck?: events.EventPromise<rules.ValidationIssue[]>;
+    private _contentLoad?: Promise<void>;
+    private _storeLoad?: Promise<void>;
+    private _asyncCheckedValue?: { value: TValue | undefined };
     private readonly _valueType: string;
     private readonly _flags: number;
+    private readonly _converter: converters.ValueConverter<TValue>;
+    /**
+     * Set if the last input could not be converted to the property type
+     */
+    private _conversionIssue?: rules.ValidationIssue;
+    private _rawInput?: any;
+    protected _pristineValue?: TValue;
+
+    private _label: string;
+    private _description?: string;
+    private _hint?: string;
 
     defaultValue?: TValue;
-    label: string;
     readonly: boolean;
     masked: boolean;
+    /**
+     * Never displayed, but still validated and submitted (e.g. ids). See 'visible' for conditionally hidden
+     */
     hidden: boolean;
-    description?: string;
-    hint?: string;
     tabIndex?: number;
     autoFocus?: boolean;
 
@@ -386,22 +1233,94 @@ export class FormProperty<TValue> {
 
     formatter?: PropertyValueFormatter;
 
+    /**
+     * Set once the user has interacted with this property (see 'touch')
+     */
+    touched = false;
+
+    visibleWhen?: PropertyCondition;
+    enabledWhen?: PropertyCondition;
+    requiredWhen?: PropertyCondition;
+    readonly computed?: ComputedValue;
+    /**
+     * The selectable options, if any
+     */
+    readonly options?: OptionsProvider<any>;
+    /**
+     * The 'oneOf' rule derived from the loaded options
+     */
+    private _optionsRule?: rules.Rule<any>;
+    /**
+     * True once the user has taken over a computed value (see 'override'), which stops it being recomputed
+     */
+    overridden = false;
+    private readonly _computedReadonly: boolean;
+    private _computing = false;
+    /**
+     * False while hidden by 'visibleWhen'. Invisible properties are not validated or submitted
+     */
+    visible = true;
+    /**
+     * False while disabled by 'enabledWhen'. Disabled properties ignore value changes
+     */
+    enabled = true;
+
+    debounceMs: number;
+    /**
+     * True while the async rules are pending (debouncing or in-flight)
+     */
+    validating = false;
+    /**
+     * True while the content of text file values is being read. Validation is pending until it completes
+     */
+    loadingContent = false;
+    /**
+     * The issue if the content of the text file values couldn't be read, or an issue for each CSV cell which
+     * couldn't be converted to its column type
+     */
+    contentIssues: rules.ValidationIssue[] = [];
+    /**
+     * How to parse CSV file values
+     */
+    csv?: CsvParseOptions & { encoding?: string };
+    /**
+     * The issues from the last completed async validation
+     */
+    asyncIssues: rules.ValidationIssue[] = [];
+    /**
+     * Errors returned by the server for this property on the last submit. Cleared when the value changes
+     */
+    serverIssues: rules.ValidationIssue[] = [];
+    /**
+     * The issues from the last validation, including the last async ones
+     */
+    issues: rules.ValidationIssue[] = [];
+    /**
+     * The error messages to display. Only populated if the form is showing validation errors
+     */
+    errors: string[] = [];
+
     constructor(opts: FormPropertyOptions) {
         this._form = opts.form;
         this._name = opts.name;
         this._fullName = `${opts.form.$formName}.${opts.name}`;
-        this._value = opts.default as TValue;
         // copy, so different instantiations of this property won't modify other instantiations
         this._rules = opts.rules ? [...opts.rules] : [];
-        this.defaultValue = opts.default as TValue;
+        this._asyncRules = opts.asyncRules ? [...opts.asyncRules] : [];
+        this.debounceMs = opts.debounceMs == undefined ? FormProperty.DEFAULT_DEBOUNCE_MS : opts.debounceMs;
         this._valueType = opts.type || "string";
         this._flags = opts.flags == undefined ? PropertyFlags.fromType(this.valueType) : opts.flags;
+        this._converter = opts.converter || converters.getConverter<TValue>(this.valueType);
+        this.defaultValue = this._converter.parse(opts.default);
+        this._value = this.defaultValue;
         this.masked = opts.masked == true || false;
         this.hidden = opts.hidden == true || false;
-        this.label = opts.label || this.name;
-        this.readonly = opts.readonly == true || false;
-        this.description = opts.description;
-        this.hint = opts.hint;
+        this._label = opts.label || this.name;
+        this.computed = opts.computed;
+        this.readonly = opts.readonly == true || (this.computed != undefined && opts.readonly == undefined);
+        this._computedReadonly = this.readonly;
+        this._description = opts.description;
+        this._hint = opts.hint;
         this.tabIndex = opts.tabIndex;
         this.autoFocus = opts.autoFocus;
 
@@ -410,6 +1329,15 @@ export class FormProperty<TValue> {
 
         this.meta = opts.meta || {};
         this.formatter = opts.formatter;
+        this.visibleWhen = opts.visibleWhen;
+        this.enabledWhen = opts.enabledWhen;
+        this.requiredWhen = opts.requiredWhen;
+        this.csv = opts.csv;
+        if (opts.options) {
+            this.options = toOptionsProvider(opts.options);
+            this.form.$subscriptions.subscribe(this.options.$loadedEvent.withOptions({}), () => this.syncOptionsRule());
+            this.syncOptionsRule();
+        }
 
         if (this.remember) {
             try {
@@ -421,34 +1349,51 @@ export class FormProperty<TValue> {
                 );
             }
         }
-
-        formSubmitEvent.on(() => {
-            if (!this.remember) {
-                return;
-            }
-            try {
-                this.saveToLocalStore();
-            } catch (err) {
-                propertyLog.warn(
-                    `Error loading property '${this.fullname} from local store using key '${this.localStorageKey}'`,
-                    err
-                );
-            }
-        });
+        this._pristineValue = snapshotValue(this._value);
     }
 
     get $onChangeEvent() {
         return this.form.$propertyChangeEvent as events.EventDef<PropertyChangeEventArgs<TValue>>;
     }
 
+    /**
+     * Load the remembered value, if any. With async storage the value is loaded in the background, see 'settle',
+     * and is only applied if the value hasn't been changed meanwhile
+     */
     loadFromLocalStore() {
-        if (this.localStorageKey) {
+        const asyncStorage = this.form.$asyncStorage;
+        if (this.localStorageKey && asyncStorage) {
+            const key = this.localStorageKey;
+            const load: Promise<void> = asyncStorage.getValue(key).then(
+                (val) => {
+                    if (this._storeLoad !== load) {
+                        return;
+                    }
+                    this._storeLoad = undefined;
+                    if (val !== undefined && !this.dirty) {
+                        this._value = this._converter.deserialize(val);
+                        this._pristineValue = snapshotValue(this._value);
+                    }
+                },
+                (err) => {
+                    if (this._storeLoad === load) {
+                        this._storeLoad = undefined;
+                    }
+                    propertyLog.warn(
+                        `Error loading property '${this.fullname} from local store using key '${key}'`,
+                        err
+                    );
+                }
+            );
+            this._storeLoad = load;
+        } else if (this.localStorageKey) {
             try {
-                const val = storage.getValue(this.localStorageKey);
-                //todo:auto convert (ok for string values atm)
+                const val = this.form.$storage.getValue(this.localStorageKey);
                 // we don't want to trigger an initial property change event, hence setting directly
-                // and bypassing the event mechanism
-                this._value = val as any;
+                // and bypassing the event mechanism. Keep the default if nothing is stored
+                if (val !== undefined) {
+                    this._value = this._converter.deserialize(val);
+                }
             } catch (err) {
                 propertyLog.warn(
                     `Error loading property '${this.fullname} from local store using key '${this.localStorageKey}'`,
@@ -458,10 +1403,35 @@ export class FormProperty<TValue> {
         }
     }
 
-    saveToLocalStore() {
-        if (this.localStorageKey) {
-            storage.setValue(this.localStorageKey, this.value ? `${this.value}` : undefined);
+    /**
+     * Store the current value. Resolves once stored, which only takes any time with async storage
+     */
+    saveToLocalStore(): Promise<void> {
+        if (!this.localStorageKey) {
+            return Promise.resolve();
+        }
+        const value = this._converter.serialize(this.value);
+        const asyncStorage = this.form.$asyncStorage;
+        if (asyncStorage) {
+            return asyncStorage.setValue(this.localStorageKey, value, { masked: this.masked });
+        }
+        this.form.$storage.setValue(this.localStorageKey, value, { masked: this.masked });
+        return Promise.resolve();
+    }
+
+    /**
+     * Remove the remembered value from the form's storage. Resolves once removed
+     */
+    clearLocalStore(): Promise<void> {
+        if (!this.localStorageKey) {
+            return Promise.resolve();
         }
+        const asyncStorage = this.form.$asyncStorage;
+        if (asyncStorage) {
+            return asyncStorage.removeValue(this.localStorageKey);
+        }
+        this.form.$storage.removeValue(this.localStorageKey);
+        return Promise.resolve();
     }
 
     /**
@@ -470,28 +1440,44 @@ export class FormProperty<TValue> {
      * @param opts any property options to override
      */
     clone(opts: PropertyCloneOptions): FormProperty<TValue> {
-        const merged = _.merge(
+        return new FormProperty(this.cloneOptions(opts));
+    }
+
+    /**
+     * The options to create a copy of this property, merged with the given overrides
+     */
+    protected cloneOptions(opts: PropertyCloneOptions): FormPropertyOptions {
+        return _.merge(
             {
                 form: this.form,
                 hidden: this.hidden,
                 name: this.name,
-                label: this.label,
-                hint: this.hint,
-                description: this.description,
+                label: this._label,
+                hint: this._hint,
+                description: this._description,
                 default: this.defaultValue,
                 flags: this.flags,
                 localStorageKey: this.localStorageKey,
                 remember: this.remember,
                 masked: this.masked,
                 readonly: this.readonly,
-                rules: [...this.rules],
-                type: this.$type,
+                // re-derived by the copy
+                rules: this.rules.filter((r) => r !== this._optionsRule),
+                asyncRules: [...this.asyncRules],
+                debounceMs: this.debounceMs,
+                type: this.valueType,
+                converter: this._converter,
                 meta: _.clone(this.meta),
                 formatter: this.formatter,
+                visibleWhen: this.visibleWhen,
+                enabledWhen: this.enabledWhen,
+                requiredWhen: this.requiredWhen,
+                computed: this.computed,
+                csv: this.csv,
+                options: this.options && this.options.clone(),
             } as FormPropertyOptions,
             opts
         );
-        return new FormProperty(merged);
     }
 
     get name(): string {
@@ -502,6 +1488,39 @@ export class FormProperty<TValue> {
         return this._form;
     }
 
+    /**
+     * The label, resolved through i18n if it is a locations key
+     */
+    get label(): string {
+        return i18n.resolve(this._label);
+    }
+
+    set label(label: string) {
+        this._label = label;
+    }
+
+    /**
+     * The hint, resolved through i18n if it is a locations key
+     */
+    get hint(): string | undefined {
+        return i18n.resolve(this._hint);
+    }
+
+    set hint(hint: string | undefined) {
+        this._hint = hint;
+    }
+
+    /**
+     * The description, resolved through i18n if it is a locations key
+     */
+    get description(): string | undefined {
+        return i18n.resolve(this._description);
+    }
+
+    set description(description: string | undefined) {
+        this._description = description;
+    }
+
     get flags(): PropertyFlags {
         return this._flags;
     }
@@ -522,7 +1541,8 @@ export class FormProperty<TValue> {
         // this will also remove duplicate 'required' rules
         _.remove(this._rules, (r) => r.key == FormProperty.RULE_REQUIRED_KEY);
         if (value) {
-            this._rules = [rules.required(), ...this._rules];
+            // modify in place, so anything holding the rules (e.g. vue) sees the change
+            this._rules.unshift(rules.required());
         }
     }
 
@@ -542,6 +1562,10 @@ export class FormProperty<TValue> {
         return this._rules;
     }
 
+    get asyncRules(): asyncRules.AsyncRule<TValue>[] {
+        return this._asyncRules;
+    }
+
     get valueType(): string {
         return this._valueType;
     }
@@ -550,61 +1574,552 @@ export class FormProperty<TValue> {
         return this._localStorageKey;
     }
 
+    get converter(): converters.ValueConverter<TValue> {
+        return this._converter;
+    }
+
+    /**
+     * The value formatted for display in an input. If the last input couldn't be converted, the raw input is returned
+     * so the user can correct it
+     */
+    get displayValue(): string {
+        if (this._conversionIssue) {
+            return this._rawInput == undefined ? "" : `${this._rawInput}`;
+        }
+        if (this.options && this.value != undefined) {
+            const options = this.options;
+            return Array.isArray(this.value)
+                ? this.value.map((v) => options.labelOf(v)).join(", ")
+                : options.labelOf(this.value);
+        }
+        return this._converter.format(this.value);
+    }
+
+    /**
+     * Set the value. The value is passed through the 'formatter' and then converted into the property type, so input
+     * strings (e.g. '42' for a number property) are accepted. If the input can't be converted, the value is cleared
+     * and a conversion issue is reported on the next validation
+     *
+     * @param value the typed value or input to convert
+     */
     set(value: TValue | undefined) {
-        if (this.readonly || value == this._value || value === this._value) {
+        if (!this.editable) {
+            return;
+        }
+        this.applyValue(value);
+    }
+
+    /**
+     * Convert and set the value, firing a change event if it changed. Doesn't check the value is editable
+     */
+    protected applyValue(value: TValue | undefined) {
+        const input = this.formatter ? this.formatter(value) : value;
+        let converted: TValue | undefined;
+        const hadConversionIssue = this._conversionIssue != undefined;
+        try {
+            converted = this._converter.parse(input);
+            this._conversionIssue = undefined;
+            this._rawInput = undefined;
+        } catch (err) {
+            if (!(err instanceof converters.ConversionError)) {
+                throw err;
+            }
+            converted = undefined;
+            this._rawInput = input;
+            this._conversionIssue = {
+                key: "convert:invalid",
+                expects: { type: this.valueType },
+                actual: input,
+                severity: "error",
+                message: i18n.format(
+                    "convert:invalid",
+                    { type: this.valueType, actual: input },
+                    "Expect a valid ${type}"
+                ),
+                path: [this.name],
+            };
+        }
+        if (!hadConversionIssue && !this._conversionIssue && _.isEqual(converted, this._value)) {
             return;
         }
         if (propertyLog.isTraceEnabled()) {
             propertyLog.trace("set property", {
                 from: this.value,
-                to: value,
+                to: converted,
                 propertyName: this.name,
                 fullPropertyName: this.fullname,
             });
         }
         const oldValue = this._value;
-        this._value = value;
+        this._value = converted;
+        // the server errors were for the old value
+        vue_tools.emptyArray(this.serverIssues);
         this.$onChangeEvent.emit({
             property: this,
             value: this.value,
             oldValue: oldValue,
         });
+        if (files.isTextFileType(this.valueType)) {
+            this.loadContent();
+        }
+        if (this._asyncRules.length > 0) {
+            this.validateAsync().catch((err) => {
+                if (!events.isCancelledError(err)) {
+                    propertyLog.warn(`Error running async rules for property '${this.fullname}'`, err);
+                }
+            });
+        }
     }
 
-    get(): TValue | undefined {
-        return this.value;
+    /**
+     * Read the content of text file values ('file:text' types), parsing any CSV files, then re-validate so the
+     * content rules (e.g. rules.csvColumnRequired) apply. Called whenever the value changes
+     */
+    loadContent(): Promise<void> {
+        const value = this.value;
+        const fileValues = _.castArray(value).filter((file) => file != undefined);
+        // any load of a previous value is now stale
+        this._contentLoad = undefined;
+        this.loadingContent = false;
+        vue_tools.emptyArray(this.contentIssues);
+        if (fileValues.length == 0) {
+            return Promise.resolve();
+        }
+        const csv = files.isCsvFileType(this.valueType);
+        this.loadingContent = true;
+        const loads = fileValues.map((file: any) =>
+            csv ? files.loadCsvFile(file, this.csv) : files.loadTextFile(file, this.csv)
+        );
+        const load: Promise<void> = Promise.all(loads).then(
+            (loaded) => {
+                // ignore if the value changed while loading
+                if (this._contentLoad === load) {
+                    this._contentLoad = undefined;
+                    this.loadingContent = false;
+                    if (csv) {
+                        vue_tools.replaceArray(this.contentIssues, this.csvCellIssues(loaded, Array.isArray(value)));
+                    }
+                    this.validate();
+                }
+            },
+            (err) => {
+                propertyLog.debug(`Error reading the content of property '${this.fullname}'`, err);
+                if (this._contentLoad === load) {
+                    this._contentLoad = undefined;
+                    this.loadingContent = false;
+                    vue_tools.replaceArray(this.contentIssues, [this.unreadableIssue(err)]);
+                    this.validate();
+                }
+            }
+        );
+        this._contentLoad = load;
+        return load;
     }
 
-    reset() {
-        this.value = this.defaultValue;
+    /**
+     * An issue for each CSV cell which couldn't be converted to its column type. The path ends with the row index
+     * and column, as for the CSV content rules
+     */
+    private csvCellIssues(loaded: CsvTextFile[], list: boolean): rules.ValidationIssue[] {
+        const issues: rules.ValidationIssue[] = [];
+        loaded.forEach((file, fileIndex) => {
+            (file.csvErrors || []).forEach((err) => {
+                const expects = { column: err.column, type: err.type };
+                issues.push({
+                    key: "csv:cellType",
+                    expects,
+                    actual: err.actual,
+                    severity: "error",
+                    message: i18n.format(
+                        "csv:cellType",
+                        { ...expects, row: err.row + 1, actual: err.actual },
+                        "Row ${row}: expect a ${type} in column '${column}'"
+                    ),
+                    path: [this.name, ...(list ? [fileIndex] : []), "rows", err.row, err.column],
+                });
+            });
+        });
+        return issues;
     }
 
-    isSet() {
-        return this._value != undefined;
+    private unreadableIssue(err: any): rules.ValidationIssue {
+        const reason = (err && err.message) || `${err}`;
+        return {
+            key: "file:unreadable",
+            expects: {},
+            actual: reason,
+            severity: "error",
+            message: i18n.format("file:unreadable", { reason }, "Can't read the file: ${reason}"),
+            path: [this.name],
+        };
     }
 
-    isString() {
-        return this.hasFlag(PropertyFlags.IsString);
+    /**
+     * Run the async rules against the current value once the debounce period has passed. Any pending or in-flight
+     * check is cancelled, so a stale result never overwrites a newer one
+     *
+     * @param opts set 'immediate' to skip the debounce
+     */
+    validateAsync(opts: { immediate?: boolean } = {}): events.EventPromise<rules.ValidationIssue[]> {
+        this.cancelAsyncValidation("superseded by a newer check");
+        const value = this.value;
+        const delay = opts.immediate ? 0 : this.debounceMs;
+        let timer: any;
+        let inflight: events.EventPromise<rules.ValidationIssue[]> | undefined;
+        const debounced = new Promise<void>((resolve) => {
+            timer = setTimeout(resolve, delay);
+        });
+        const run = debounced.then(() => {
+            inflight = asyncRules.validateAllAsync(this._asyncRules, value, { path: [this.name] });
+            return inflight;
+        });
+        const check = events.EventPromise.cancelable(run, (reason) => {
+            if (timer) {
+                clearTimeout(timer);
+            }
+            if (inflight) {
+                inflight.cancel(reason);
+            }
+        });
+        this._asyncCheck = check;
+        this.validating = true;
+        return check.then(
+            (issues) => {
+                if (this._asyncCheck === check) {
+                    this._asyncCheck = undefined;
+                    this._asyncCheckedValue = { value };
+                    this.validating = false;
+                    vue_tools.replaceArray(this.asyncIssues, issues);
+                    this.validate();
+                }
+                return issues;
+            },
+            (err) => {
+                // a failed check shouldn't leave the property pending
+                if (this._asyncCheck === check) {
+                    this._asyncCheck = undefined;
+                    this.validating = false;
+                }
+                throw err;
+            }
+        );
     }
 
-    isNumber() {
-        return this.hasFlag(PropertyFlags.IsNumber);
+    /**
+     * Resolves once the async rules and any content load for the current value have completed, and any remembered
+     * value has loaded from async storage. The async rules are run now if they haven't been for the current value,
+     * e.g. a default or restored value. Invisible properties aren't validated, so only wait for the remembered value
+     */
+    async settle(): Promise<void> {
+        if (!this.visible) {
+            await this._storeLoad;
+            return;
+        }
+        const checked = this._asyncCheckedValue;
+        if (this._asyncRules.length > 0 && !this._asyncCheck && !(checked && _.isEqual(checked.value, this.value))) {
+            this.validateAsync({ immediate: true }).catch((err) => {
+                if (!events.isCancelledError(err)) {
+                    propertyLog.warn(`Error running async rules for property '${this.fullname}'`, err);
+                }
+            });
+        }
+        // a change while waiting starts a new check or load, so wait for that too
+        while (this._asyncCheck || this._contentLoad || this._storeLoad) {
+            const outstanding = _.compact<PromiseLike<any>>([this._asyncCheck, this._contentLoad, this._storeLoad]);
+            await Promise.all(outstanding.map((p) => p.then(_.noop, _.noop)));
+        }
     }
 
-    isBoolean() {
-        return this.hasFlag(PropertyFlags.IsBoolean);
+    /**
+     * Run the rules against the current value, updating 'issues' and 'errors'. The issues from the last completed
+     * async check are included
+     */
+    validate(): rules.ValidationIssue[] {
+        if (!this.visible) {
+            this.clearErrors();
+            return [];
+        }
+        const ctxt = { path: [this.name], values: this.form.$values() };
+        const issues = this._conversionIssue
+            ? [this._conversionIssue]
+            : [
+                  ...rules.validateAll(this._rules, this.value, ctxt),
+                  ...this.contentIssues,
+                  ...this.asyncIssues,
+                  ...this.serverIssues,
+              ];
+        vue_tools.replaceArray(this.issues, issues);
+        vue_tools.replaceArray(this.errors, this.form.$showValidationErrors ? errorMessages(issues) : []);
+        return issues;
     }
 
-    isDate() {
-        return this.hasFlag(PropertyFlags.IsDate);
+    /**
+     * If any of this property's rules read the given sibling property
+     */
+    dependsOn(propertyName: string): boolean {
+        return _.some(this._rules, (r) => r.dependsOn != undefined && r.dependsOn.indexOf(propertyName) != -1);
     }
 
-    isList() {
-        return this.hasFlag(PropertyFlags.IsList);
+    /**
+     * If the last validation found no errors
+     */
+    get valid(): boolean {
+        return !hasErrors(this.issues);
     }
 
-    isMap() {
-        return this.hasFlag(PropertyFlags.IsMap);
+    /**
+     * True while the async rules, a content load or loading the remembered value are outstanding, so the last
+     * validation isn't final
+     */
+    get pending(): boolean {
+        return this.validating || this.loadingContent || this._storeLoad != undefined;
+    }
+
+    clearErrors() {
+        vue_tools.emptyArray(this.issues);
+        vue_tools.emptyArray(this.errors);
+    }
+
+    /**
+     * Called when the form is disposed. Any subscriptions should be made via the form's '$subscriptions', so they
+     * are cancelled with it
+     */
+    dispose() {
+        this.cancelAsyncValidation("disposed");
+    }
+
+    /**
+     * Cancel any pending or in-flight async validation
+     */
+    cancelAsyncValidation(reason = "cancelled") {
+        const check = this._asyncCheck;
+        if (check) {
+            this._asyncCheck = undefined;
+            this.validating = false;
+            check.cancel(reason);
+        }
+    }
+
+    get(): TValue | undefined {
+        return this.value;
+    }
+
+    /**
+     * Restore the last pristine value (the default, remembered value, or the value when last marked pristine)
+     */
+    reset() {
+        this.value = snapshotValue(this._pristineValue);
+        this.touched = false;
+    }
+
+    /**
+     * If the value differs from the pristine value
+     */
+    get dirty(): boolean {
+        return !_.isEqual(this._value, this._pristineValue);
+    }
+
+    get pristineValue(): TValue | undefined {
+        return this._pristineValue;
+    }
+
+    /**
+     * Take the current value as the pristine value
+     */
+    markPristine() {
+        this._pristineValue = snapshotValue(this._value);
+        this.touched = false;
+    }
+
+    /**
+     * Mark the property as touched, usually on blur
+     */
+    touch() {
+        this.touched = true;
+    }
+
+    /**
+     * Replace the 'oneOf' rule with one for all the loaded options. Only once every option is known, as otherwise
+     * a valid value could be on a page which hasn't been loaded yet
+     */
+    private syncOptionsRule() {
+        if (!this.options || !this.options.complete) {
+            return;
+        }
+        if (this._optionsRule) {
+            _.pull(this._rules, this._optionsRule);
+        }
+        const oneOf = rules.oneOf(this.options.knownValues);
+        this._optionsRule = this.isList() ? rules.eachItem(oneOf) : oneOf;
+        this._rules.push(this._optionsRule);
+    }
+
+    /**
+     * If the value is computed from the given property, and not overridden
+     */
+    computedFrom(propertyName: string): boolean {
+        return this.computed != undefined && !this.overridden && this.computed.dependsOn.indexOf(propertyName) != -1;
+    }
+
+    /**
+     * Recompute a computed value from the current form values. Does nothing if not computed or overridden
+     *
+     * @param opts set 'initial' to set the value without a change event, and take it as the pristine value
+     */
+    recompute(opts: { initial?: boolean } = {}) {
+        if (!this.computed || this.overridden) {
+            return;
+        }
+        if (this._computing) {
+            propertyLog.warn(`Circular computed dependency for property '${this.fullname}'`);
+            return;
+        }
+        this._computing = true;
+        try {
+            const value = this.computed.compute(this.form.$values(), this);
+            if (opts.initial) {
+                this._value = this._converter.parse(value);
+                this._pristineValue = snapshotValue(this._value);
+            } else {
+                this.applyValue(value);
+            }
+        } catch (err) {
+            propertyLog.warn(`Error computing property '${this.fullname}'`, err);
+        } finally {
+            this._computing = false;
+        }
+    }
+
+    /**
+     * Let the user edit a computed value, which stops it being recomputed. Pass false to go back to the computed
+     * value
+     */
+    override(flag = true) {
+        if (!this.computed) {
+            throw new Error(`Property '${this.fullname}' is not computed, so can't be overridden`);
+        }
+        this.overridden = flag;
+        this.readonly = flag ? false : this._computedReadonly;
+        if (!flag) {
+            this.recompute();
+        }
+    }
+
+    /**
+     * If the value can currently be changed
+     */
+    get editable(): boolean {
+        return !this.readonly && this.enabled;
+    }
+
+    hasConditions(): boolean {
+        return this.visibleWhen != undefined || this.enabledWhen != undefined || this.requiredWhen != undefined;
+    }
+
+    /**
+     * Update 'visible', 'enabled' and 'required' from the conditions. See PropertiesForm.$evaluateConditions
+     *
+     * @param values the form values to evaluate the conditions against
+     * @returns true if any of the state changed
+     */
+    evaluateConditions(values: { [name: string]: any }): boolean {
+        let changed = false;
+        const visible = this.checkCondition(this.visibleWhen, values, this.visible);
+        if (visible != this.visible) {
+            this.visible = visible;
+            if (!visible) {
+                this.cancelAsyncValidation("property hidden");
+            }
+            changed = true;
+        }
+        const enabled = this.checkCondition(this.enabledWhen, values, this.enabled);
+        if (enabled != this.enabled) {
+            this.enabled = enabled;
+            changed = true;
+        }
+        if (this.requiredWhen) {
+            const required = this.checkCondition(this.requiredWhen, values, this.required);
+            if (required != this.required) {
+                this.required = required;
+                changed = true;
+            }
+        }
+        return changed;
+    }
+
+    private checkCondition(
+        condition: PropertyCondition | undefined,
+        values: { [name: string]: any },
+        current: boolean
+    ): boolean {
+        if (!condition) {
+            return true;
+        }
+        try {
+            return condition(values, this) == true;
+        } catch (err) {
+            propertyLog.warn(`Error evaluating condition for property '${this.fullname}', leaving as is`, err);
+            return current;
+        }
+    }
+
+    /**
+     * Capture the value, pristine value and validation state. See PropertiesForm.$snapshot
+     *
+     * @param opts passed on to any nested forms, e.g. array rows
+     */
+    snapshot(opts: FormSnapshotOptions = {}): FormPropertySnapshot {
+        return {
+            value: this._converter.serialize(this._value),
+            pristineValue: this._converter.serialize(this._pristineValue),
+            touched: this.touched,
+            issues: this.issues.map((issue) => ({ ...issue })),
+            serverIssues: this.serverIssues.map((issue) => ({ ...issue })),
+        };
+    }
+
+    /**
+     * Restore the state captured by 'snapshot', without firing a change event
+     */
+    restore(snapshot: FormPropertySnapshot) {
+        this.cancelAsyncValidation("restoring snapshot");
+        this._value = this._converter.deserialize(snapshot.value);
+        this._pristineValue = this._converter.deserialize(snapshot.pristineValue);
+        this._conversionIssue = undefined;
+        this._rawInput = undefined;
+        this.touched = snapshot.touched == true;
+        vue_tools.emptyArray(this.asyncIssues);
+        vue_tools.replaceArray(this.serverIssues, snapshot.serverIssues || []);
+        vue_tools.replaceArray(this.issues, snapshot.issues || []);
+        vue_tools.replaceArray(this.errors, this.form.$showValidationErrors ? errorMessages(this.issues) : []);
+    }
+
+    isSet() {
+        return this._value != undefined;
+    }
+
+    isString() {
+        return this.hasFlag(PropertyFlags.IsString);
+    }
+
+    isNumber() {
+        return this.hasFlag(PropertyFlags.IsNumber);
+    }
+
+    isBoolean() {
+        return this.hasFlag(PropertyFlags.IsBoolean);
+    }
+
+    isDate() {
+        return this.hasFlag(PropertyFlags.IsDate);
+    }
+
+    isList() {
+        return this.hasFlag(PropertyFlags.IsList);
+    }
+
+    isMap() {
+        return this.hasFlag(PropertyFlags.IsMap);
     }
 
     isReference() {
@@ -616,6 +2131,523 @@ export class FormProperty<TValue> {
     }
 }
 
+/**
+ * The values of a single form array row, as returned by PropertiesForm.$values
+ */
+export type FormArrayRowValues = { [name: string]: any };
+
+export interface FormArrayOptions
+    extends Omit<FormPropertyOptions, "type" | "converter" | "remember" | "localStorageKey"> {
+    /**
+     * The form each row is cloned from
+     */
+    template: PropertiesForm;
+    /**
+     * Minimum number of rows
+     */
+    minItems?: number;
+    /**
+     * Maximum number of rows
+     */
+    maxItems?: number;
+}
+
+/**
+ * Form array values are plain arrays of row values. Strings are parsed as JSON
+ */
+const formArrayConverter: converters.ValueConverter<FormArrayRowValues[]> = {
+    parse: (input) => {
+        if (input == undefined) {
+            return [];
+        }
+        if (typeof input !== "string") {
+            return _.castArray(input);
+        }
+        try {
+            return _.castArray(JSON.parse(input));
+        } catch (err) {
+            throw new converters.ConversionError({
+                key: "CONVERT_FORMARRAY",
+                message: `Can't convert '${input}' to form array rows`,
+                captureStack: false,
+            });
+        }
+    },
+    format: (value) => (value == undefined ? "" : JSON.stringify(value)),
+    serialize: (value) => (value == undefined ? undefined : JSON.stringify(value)),
+    deserialize: (stored) => (stored == undefined ? undefined : JSON.parse(stored)),
+};
+
+/**
+ * A repeatable list of rows (e.g. addresses or line items), each row a clone of the template form. The value is
+ * the array of row values, and is kept in sync as rows are edited, added, removed or moved
+ */
+export class FormArray extends FormProperty<FormArrayRowValues[]> {
+    static readonly TYPE = "FormArray";
+
+    readonly template: PropertiesForm;
+    readonly minItems?: number;
+    readonly maxItems?: number;
+    /**
+     * The row forms, in display order
+     */
+    readonly rows: PropertiesForm[] = [];
+
+    private readonly _countRules: rules.Rule<any>[] = [];
+    private readonly _subscriptions = new Map<PropertiesForm, events.EventSubscription[]>();
+    /**
+     * Set while rows are being updated from a value, so the row change events are ignored
+     */
+    private _syncing = false;
+
+    constructor(opts: FormArrayOptions) {
+        super({
+            ...opts,
+            default: undefined,
+            type: FormArray.TYPE,
+            converter: formArrayConverter,
+        });
+        this.template = opts.template;
+        this.minItems = opts.minItems;
+        this.maxItems = opts.maxItems;
+        if (opts.minItems != undefined) {
+            this._countRules.push(rules.minItems(opts.minItems));
+        }
+        if (opts.maxItems != undefined) {
+            this._countRules.push(rules.maxItems(opts.maxItems));
+        }
+        this.rules.push(...this._countRules);
+
+        this.applyRows(formArrayConverter.parse(opts.default) || []);
+        // we don't want to trigger an initial property change event, hence setting directly
+        this._value = this.rowValues();
+        this.defaultValue = snapshotValue(this._value);
+        this._pristineValue = snapshotValue(this._value);
+    }
+
+    /**
+     * Dispose the rows too. The template is left alone, as clones of this array share it
+     */
+    dispose() {
+        super.dispose();
+        this.rows.forEach((row) => this.detachRow(row));
+    }
+
+    clone(opts: PropertyCloneOptions): FormArray {
+        const cloneOpts = this.cloneOptions(opts);
+        return new FormArray({
+            ..._.omit(cloneOpts, "type", "converter", "remember", "localStorageKey"),
+            rules: this.rules.filter((r) => this._countRules.indexOf(r) == -1),
+            template: this.template,
+            minItems: this.minItems,
+            maxItems: this.maxItems,
+        });
+    }
+
+    set(value: FormArrayRowValues[] | undefined) {
+        if (!this.editable) {
+            return;
+        }
+        let values: FormArrayRowValues[];
+        try {
+            values = formArrayConverter.parse(value) || [];
+        } catch (err) {
+            // let the base record the conversion issue
+            super.set(value);
+            return;
+        }
+        this.applyRows(values);
+        super.set(this.rowValues());
+    }
+
+    /**
+     * Add a new row
+     *
+     * @param values any initial row values, the rest use the template defaults
+     * @param index where to insert the row. Defaults to the end
+     * @returns the new row form
+     */
+    add(values: FormArrayRowValues = {}, index = this.rows.length): PropertiesForm {
+        this.checkWritable();
+        const row = this.newRow();
+        this.withSyncing(() => applyFormValues(row, values));
+        this.rows.splice(index, 0, row);
+        this.syncValue();
+        return row;
+    }
+
+    /**
+     * Remove the given row (or the row at the given index)
+     *
+     * @returns true if the row was found and removed
+     */
+    remove(rowOrIndex: PropertiesForm | number): boolean {
+        this.checkWritable();
+        const index = typeof rowOrIndex === "number" ? rowOrIndex : this.rows.indexOf(rowOrIndex);
+        if (index < 0 || index >= this.rows.length) {
+            return false;
+        }
+        const [row] = this.rows.splice(index, 1);
+        this.detachRow(row);
+        this.syncValue();
+        return true;
+    }
+
+    /**
+     * Move the row at 'from' so it ends up at 'to'
+     */
+    move(from: number, to: number) {
+        this.checkWritable();
+        this.checkIndex(from);
+        this.checkIndex(to);
+        if (from == to) {
+            return;
+        }
+        const [row] = this.rows.splice(from, 1);
+        this.rows.splice(to, 0, row);
+        this.syncValue();
+    }
+
+    /**
+     * Reorder all the rows
+     *
+     * @param order the current row indexes in their new order, e.g. [2, 0, 1] moves the last row to the front
+     */
+    reorder(order: number[]) {
+        this.checkWritable();
+        const expected = _.range(this.rows.length);
+        if (!_.isEqual(_.sortBy(order), expected)) {
+            throw new Error(
+                `Invalid row order [${order.join(",")}] for form array '${this.fullname}', expect a reordering of ` +
+                    `[${expected.join(",")}]`
+            );
+        }
+        const reordered = order.map((i) => this.rows[i]);
+        vue_tools.replaceArray(this.rows, reordered);
+        this.syncValue();
+    }
+
+    /**
+     * Validate the row count rules and every row. Row issue paths are prefixed with the property name and the
+     * row index, e.g. ['addresses', 1, 'street']. Only the count errors are shown against this property, the
+     * rows show their own
+     */
+    validate(): rules.ValidationIssue[] {
+        const issues = super.validate();
+        if (!this.visible) {
+            return issues;
+        }
+        this.rows.forEach((row, i) => {
+            setShowValidationErrors(row, this.form.$showValidationErrors);
+            flattenIssues(row.$validate()).forEach((issue) => {
+                issues.push({ ...issue, path: [this.name, i, ...issue.path] });
+            });
+        });
+        vue_tools.replaceArray(this.issues, issues);
+        return issues;
+    }
+
+    clearErrors() {
+        super.clearErrors();
+        this.rows.forEach((row) => row.$clearErrors());
+    }
+
+    get pending(): boolean {
+        return super.pending || _.some(this.rows, (row) => row.$pending);
+    }
+
+    async settle(): Promise<void> {
+        await super.settle();
+        if (this.visible) {
+            await Promise.all(this.rows.map((row) => row.$settle()));
+        }
+    }
+
+    markPristine() {
+        super.markPristine();
+        this.rows.forEach((row) => row.$markPristine());
+    }
+
+    snapshot(opts: FormSnapshotOptions = {}): FormPropertySnapshot {
+        const snapshot = { ...super.snapshot(opts), rows: this.rows.map((row) => row.$snapshot(opts)) };
+        if (opts.includeMasked) {
+            return snapshot;
+        }
+        // the rows leave out their masked values, so the combined row values and issues need to as well
+        const unmasked = (values: FormArrayRowValues[] | undefined) =>
+            values && values.map((row) => unmaskedValues(this.template, row));
+        return {
+            ...snapshot,
+            value: formArrayConverter.serialize(unmasked(this._value)),
+            pristineValue: formArrayConverter.serialize(unmasked(this._pristineValue)),
+            issues: snapshot.issues.map((issue) => this.unmaskedIssue(issue)),
+            serverIssues: snapshot.serverIssues.map((issue) => this.unmaskedIssue(issue)),
+        };
+    }
+
+    /**
+     * The issue without its actual value if it is of a masked property in a row
+     */
+    private unmaskedIssue(issue: rules.ValidationIssue): rules.ValidationIssue {
+        const row = typeof issue.path[1] === "number" ? this.rows[issue.path[1]] : undefined;
+        return row && isMaskedPath(row, issue.path.slice(2)) ? { ...issue, actual: undefined } : issue;
+    }
+
+    restore(snapshot: FormPropertySnapshot) {
+        super.restore(snapshot);
+        const rowSnapshots = snapshot.rows;
+        if (rowSnapshots) {
+            this.applyRows(rowSnapshots.map(() => ({})));
+            rowSnapshots.forEach((rowSnapshot, i) => this.rows[i].$restore(rowSnapshot));
+        } else {
+            this.applyRows(this._value || []);
+        }
+        this._value = this.rowValues();
+    }
+
+    private rowValues(): FormArrayRowValues[] {
+        return this.rows.map((row) => row.$values());
+    }
+
+    /**
+     * Update the rows to match the given values, adding or removing rows at the end as needed
+     */
+    private applyRows(values: FormArrayRowValues[]) {
+        this.withSyncing(() => {
+            while (this.rows.length > values.length) {
+                this.detachRow(this.rows.splice(this.rows.length - 1, 1)[0]);
+            }
+            while (this.rows.length < values.length) {
+                this.rows.push(this.newRow());
+            }
+            values.forEach((rowValues, i) => applyFormValues(this.rows[i], rowValues));
+        });
+    }
+
+    private newRow(): PropertiesForm {
+        const row = this.template.clone({});
+        // listen synchronously so the value is never stale
+        const listener = () => {
+            if (!this._syncing) {
+                this.syncValue();
+            }
+        };
+        const subscriptions: events.EventSubscription[] = [];
+        const subscribe = (form: PropertiesForm) => {
+            subscriptions.push(form.$propertyChangeEvent.withOptions({}).subscribe(listener));
+            form.$subForms.forEach(subscribe);
+        };
+        subscribe(row);
+        this._subscriptions.set(row, subscriptions);
+        return row;
+    }
+
+    private detachRow(row: PropertiesForm) {
+        const subscriptions = this._subscriptions.get(row) || [];
+        subscriptions.forEach((s) => s.cancel());
+        this._subscriptions.delete(row);
+        // rows are only ever used by this array
+        row.$dispose();
+    }
+
+    private syncValue() {
+        super.set(this.rowValues());
+    }
+
+    private withSyncing(fn: () => void) {
+        const wasSyncing = this._syncing;
+        this._syncing = true;
+        try {
+            fn();
+        } finally {
+            this._syncing = wasSyncing;
+        }
+    }
+
+    private checkWritable() {
+        if (!this.editable) {
+            throw new Error(`Form array '${this.fullname}' is ${this.readonly ? "readonly" : "disabled"}`);
+        }
+    }
+
+    private checkIndex(index: number) {
+        if (index < 0 || index >= this.rows.length) {
+            throw new Error(`No row ${index} in form array '${this.fullname}', which has ${this.rows.length} rows`);
+        }
+    }
+}
+
+/**
+ * Set the given values on the matching form properties and sub forms. Values without a matching property are
+ * ignored
+ */
+function applyFormValues(form: PropertiesForm, values: FormArrayRowValues) {
+    form.$properties.forEach((p) => {
+        if (_.has(values, p.name)) {
+            p.value = values[p.name];
+        }
+    });
+    form.$subForms.forEach((f) => {
+        if (_.isPlainObject(values[f.$formName])) {
+            applyFormValues(f, values[f.$formName]);
+        }
+    });
+}
+
+/**
+ * Copy a value so later changes to it don't affect the copy. Files and other class instances are kept as is
+ */
+function snapshotValue<T>(value: T): T {
+    return _.cloneDeepWith(value, (v) => {
+        if (_.isObject(v) && !Array.isArray(v) && !_.isPlainObject(v) && !_.isDate(v)) {
+            return v;
+        }
+        return undefined;
+    });
+}
+
+/**
+ * The form values without those of masked properties, including in sub forms and array rows
+ */
+function unmaskedValues(form: PropertiesForm, values: { [name: string]: any }): { [name: string]: any } {
+    const unmasked = { ...values };
+    form.$properties.forEach((p) => {
+        if (p.masked) {
+            delete unmasked[p.name];
+        } else if (p instanceof FormArray && Array.isArray(unmasked[p.name])) {
+            unmasked[p.name] = unmasked[p.name].map((row: FormArrayRowValues) => unmaskedValues(p.template, row));
+        }
+    });
+    form.$subForms.forEach((f) => {
+        if (unmasked[f.$formName] != undefined) {
+            unmasked[f.$formName] = unmaskedValues(f, unmasked[f.$formName]);
+        }
+    });
+    return unmasked;
+}
+
+/**
+ * If the issue path, relative to the form, is of a masked property
+ */
+function isMaskedPath(form: PropertiesForm, path: rules.ValidationPath): boolean {
+    const [name, ...rest] = path;
+    const property = form.$property(`${name}`);
+    if (property) {
+        if (property.masked) {
+            return true;
+        }
+        const row = property instanceof FormArray && typeof rest[0] === "number" ? property.rows[rest[0]] : undefined;
+        return row != undefined && isMaskedPath(row, rest.slice(1));
+    }
+    const subForm = _.find(form.$subForms, (f) => f.$formName == name);
+    return subForm != undefined && isMaskedPath(subForm, rest);
+}
+
+export interface FormHistoryEntry {
+    readonly property: FormProperty<any>;
+    readonly oldValue: any;
+    readonly value: any;
+}
+
+/**
+ * Records the property changes of a form so they can be undone and redone. Built on the form's property change
+ * events, listened to synchronously so an undo straight after a change sees it
+ */
+export class FormHistory {
+    static readonly DEFAULT_MAX_ENTRIES = 100;
+
+    private readonly _undo: FormHistoryEntry[] = [];
+    private readonly _redo: FormHistoryEntry[] = [];
+    /**
+     * The change currently being applied by an undo/redo, which shouldn't be recorded
+     */
+    private _applying?: FormHistoryEntry;
+
+    constructor(form: PropertiesForm, readonly maxEntries = FormHistory.DEFAULT_MAX_ENTRIES) {
+        form.$subscriptions.subscribe(form.$propertyChangeEvent.withOptions({}), (event) => this.record(event.args));
+    }
+
+    get canUndo(): boolean {
+        return _.some(this._undo, (entry) => entry.property.editable);
+    }
+
+    get canRedo(): boolean {
+        return _.some(this._redo, (entry) => entry.property.editable);
+    }
+
+    get entries(): FormHistoryEntry[] {
+        return [...this._undo];
+    }
+
+    /**
+     * Revert the last change to a property which is still editable. Changes to properties which no longer are (e.g.
+     * now readonly or disabled) are skipped, and kept in place for later. Returns false if there was nothing to undo
+     */
+    undo(): boolean {
+        const index = _.findLastIndex(this._undo, (entry) => entry.property.editable);
+        if (index == -1) {
+            return false;
+        }
+        const [entry] = this._undo.splice(index, 1);
+        this.apply(entry, entry.oldValue);
+        this._redo.push(entry);
+        return true;
+    }
+
+    /**
+     * Re-apply the last undone change to a property which is still editable, skipping any others as for 'undo'.
+     * Returns false if there was nothing to redo
+     */
+    redo(): boolean {
+        const index = _.findLastIndex(this._redo, (entry) => entry.property.editable);
+        if (index == -1) {
+            return false;
+        }
+        const [entry] = this._redo.splice(index, 1);
+        this.apply(entry, entry.value);
+        this._undo.push(entry);
+        return true;
+    }
+
+    clear() {
+        vue_tools.emptyArray(this._undo);
+        vue_tools.emptyArray(this._redo);
+    }
+
+    /**
+     * Only call for editable properties, as the setter would otherwise silently ignore the value, leaving the history
+     * out of step with the form
+     */
+    private apply(entry: FormHistoryEntry, value: any) {
+        this._applying = entry;
+        try {
+            entry.property.value = snapshotValue(value);
+        } finally {
+            this._applying = undefined;
+        }
+    }
+
+    private record(args: PropertyChangeEventArgs<unknown>) {
+        if (this._applying && this._applying.property === args.property) {
+            return;
+        }
+        // recomputed when the change it was computed from is undone
+        if (args.property.computed && !args.property.overridden) {
+            return;
+        }
+        this._undo.push({
+            property: args.property,
+            oldValue: snapshotValue(args.oldValue),
+            value: snapshotValue(args.value),
+        });
+        if (this._undo.length > this.maxEntries) {
+            this._undo.shift();
+        }
+        // a new change invalidates anything undone
+        vue_tools.emptyArray(this._redo);
+    }
+}
+
 type PropertyChangeEventArgs<TValue> = { property: FormProperty<TValue>; oldValue?: TValue; value?: TValue };
 
 export const formCancelEvent = events.defineEvent<{ form: Form }>("form.FormCancelEvent");
@@ -624,7 +2656,9 @@ export const formClearErrorsEvent = events.defineEvent<{ form: Form }>("form.For
 export const formBeforeSubmitEvent = events.defineEvent<{ form: Form }>("form.FormBeforeSubmitEvent");
 export const formSubmitEvent = events.defineEvent<{ form: Form }>("form.FormSubmitEvent");
 // should this be vetoable?
-export const formValidateEvent = events.defineEvent<{ form: Form }>("form.FormValidateEvent");
+export const formValidateEvent = events.defineEvent<{ form: Form; result?: FormValidationResult }>(
+    "form.FormValidateEvent"
+);
 // hmm, should we let consumer decide? And should the 'validated' be after tha fact?
 export const formAfterValidatedEvent = events.defineEvent<{ form: Form }>("form.FormAfterValidatedEvent").withOptions({
     //free up the UI as user types
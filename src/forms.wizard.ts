@@ -0,0 +1,373 @@
+import { EventEmitter2 } from "eventemitter2";
+import _ from "lodash";
+import * as events from "./events";
+import { FormSnapshot, FormSubmitState, PropertiesForm } from "./forms";
+import { getLogger } from "./logger";
+import { StorageProvider } from "./storage";
+
+const log = getLogger("forms.wizard");
+
+/**
+ * The values of each active step, keyed by the step's form name
+ */
+export type WizardValues = { [formName: string]: { [name: string]: any } };
+
+export type WizardDirection = "next" | "back";
+
+export interface WizardStep {
+    form: PropertiesForm;
+    /**
+     * Only show the step when this returns true, given the values of the earlier active steps. Skipped steps are
+     * left out of these values, so they can't affect later steps, and out of the submitted values
+     */
+    when?: (values: WizardValues, wizard: FormWizard<any>) => boolean;
+    /**
+     * Guard leaving the step, e.g. to confirm discarding changes. Called after the step passes validation when
+     * moving forward
+     */
+    canLeave?: (direction: WizardDirection, wizard: FormWizard<any>) => boolean | PromiseLike<boolean>;
+}
+
+export interface FormWizardOptions<TResult> {
+    /**
+     * Programmatic, logical and logging name of the wizard. Also used for the progress storage key
+     */
+    name: string;
+    /**
+     * The steps in order, either the form or the full step
+     */
+    steps: Array<PropertiesForm | WizardStep>;
+    /**
+     * Called once on finish with the values of all the active steps
+     */
+    onSubmit: (values: WizardValues, wizard: FormWizard<TResult>) => TResult | PromiseLike<TResult>;
+    /**
+     * Where progress is saved. Defaults to the first step form's storage
+     */
+    storage?: StorageProvider;
+    /**
+     * Defaults to FormWizard.STORAGE_DEFAULT_PREFIX + name
+     */
+    storageKey?: string;
+}
+
+type WizardNavigationEventArgs = { wizard: FormWizard<any>; from: number; to: number };
+
+export const wizardNextEvent = events.defineEvent<WizardNavigationEventArgs>("forms.WizardNextEvent");
+export const wizardBackEvent = events.defineEvent<WizardNavigationEventArgs>("forms.WizardBackEvent");
+export const wizardFinishEvent = events.defineEvent<{ wizard: FormWizard<any>; values: WizardValues; result: any }>(
+    "forms.WizardFinishEvent"
+);
+
+/**
+ * The saved progress of a wizard
+ */
+interface WizardProgress {
+    version: number;
+    current: number;
+    steps: FormSnapshot[];
+}
+
+const WIZARD_PROGRESS_VERSION = 1;
+
+/**
+ * A form split over several steps, each a PropertiesForm. Each step is validated before moving on, steps can be
+ * skipped based on the values so far, and the combined values are submitted once at the end
+ */
+export class FormWizard<TResult = any> {
+    static readonly STORAGE_DEFAULT_PREFIX = "forms.wizard.";
+
+    readonly $events = new EventEmitter2();
+    readonly $nextEvent = wizardNextEvent.withEmmitter(this.$events);
+    readonly $backEvent = wizardBackEvent.withEmmitter(this.$events);
+    readonly $finishEvent = wizardFinishEvent.withEmmitter(this.$events);
+
+    readonly name: string;
+    readonly steps: WizardStep[];
+    readonly storageKey: string;
+    /**
+     * Index of the current step, in 'steps'
+     */
+    current = 0;
+    submitState: FormSubmitState = "idle";
+    /**
+     * The error from the last failed submit
+     */
+    submitError?: any;
+    /**
+     * What the submit callback returned
+     */
+    result?: TResult;
+    /**
+     * True while moving between steps or submitting
+     */
+    busy = false;
+
+    private readonly onSubmit: FormWizardOptions<TResult>["onSubmit"];
+    private readonly _storage?: StorageProvider;
+
+    constructor(opts: FormWizardOptions<TResult>) {
+        if (opts.steps.length == 0) {
+            throw new Error(`Wizard '${opts.name}' needs at least one step`);
+        }
+        this.name = opts.name;
+        this.steps = opts.steps.map((step) => (step instanceof PropertiesForm ? { form: step } : step));
+        const names = this.steps.map((step) => step.form.$formName);
+        names.forEach((name, i) => {
+            // values are keyed by form name, so they need to be unique
+            if (names.indexOf(name) != i) {
+                throw new Error(`Wizard '${this.name}' has more than one step named '${name}'`);
+            }
+        });
+        this.onSubmit = opts.onSubmit;
+        this._storage = opts.storage;
+        this.storageKey = opts.storageKey || FormWizard.STORAGE_DEFAULT_PREFIX + this.name;
+        this.current = this.nextActive(-1, 1);
+        if (this.current == -1) {
+            throw new Error(`Wizard '${this.name}' has no active steps`);
+        }
+    }
+
+    get storage(): StorageProvider {
+        return this._storage || this.steps[0].form.$storage;
+    }
+
+    get currentStep(): WizardStep {
+        return this.steps[this.current];
+    }
+
+    get currentForm(): PropertiesForm {
+        return this.currentStep.form;
+    }
+
+    /**
+     * The steps which are not skipped, given the current values
+     */
+    get activeSteps(): WizardStep[] {
+        const active = this.activeFlags();
+        return this.steps.filter((step, i) => active[i]);
+    }
+
+    get isFirst(): boolean {
+        return this.nextActive(this.current, -1) == -1;
+    }
+
+    get isLast(): boolean {
+        return this.nextActive(this.current, 1) == -1;
+    }
+
+    /**
+     * Position of the current step amongst the active steps (1 based), and how many active steps there are
+     */
+    get progress(): { step: number; count: number } {
+        const active = this.activeSteps;
+        return { step: active.indexOf(this.currentStep) + 1, count: active.length };
+    }
+
+    /**
+     * The values of the active steps, which is also what is submitted
+     */
+    values(): WizardValues {
+        const values: WizardValues = {};
+        this.activeSteps.forEach((step) => {
+            values[step.form.$formName] = step.form.$values();
+        });
+        return values;
+    }
+
+    /**
+     * Validate the current step and, if valid and its guard allows, move to the next active step. Resolves to
+     * whether it moved
+     */
+    async next(): Promise<boolean> {
+        const to = this.nextActive(this.current, 1);
+        if (to == -1 || this.busy) {
+            return false;
+        }
+        return this.navigate("next", to);
+    }
+
+    /**
+     * Move to the previous active step, without validating the current one. Resolves to whether it moved
+     */
+    async back(): Promise<boolean> {
+        const to = this.nextActive(this.current, -1);
+        if (to == -1 || this.busy) {
+            return false;
+        }
+        return this.navigate("back", to);
+    }
+
+    /**
+     * Validate all the active steps and, if valid, submit their values via the submit callback. If a step is
+     * invalid the wizard moves to it and resolves to undefined. If the callback fails its error is rethrown.
+     * On success the saved progress is cleared and each step form is submitted, saving any remembered values
+     */
+    async finish(): Promise<TResult | undefined> {
+        if (this.busy) {
+            throw new Error(`Wizard '${this.name}' is busy`);
+        }
+        this.busy = true;
+        try {
+            for (const step of this.activeSteps) {
+                // other steps are checked silently, only the one moved to shows its errors
+                if (!(await isStepValid(step.form))) {
+                    log.debug(`step '${step.form.$formName}' of wizard '${this.name}' is invalid`);
+                    this.moveTo(this.steps.indexOf(step));
+                    step.form.$setShowValidationErrors(true);
+                    this.submitState = "invalid";
+                    return undefined;
+                }
+            }
+            const values = this.values();
+            this.submitState = "submitting";
+            this.submitError = undefined;
+            try {
+                this.result = await this.onSubmit(values, this);
+            } catch (err) {
+                log.debug(`submit of wizard '${this.name}' failed`, err);
+                this.submitState = "failed";
+                this.submitError = err;
+                throw err;
+            }
+            this.submitState = "submitted";
+            const submitted = this.activeSteps.map((step) => step.form);
+            submitted.forEach((form) => form.$submit());
+            await Promise.all(submitted.map((form) => form.$saved()));
+            this.clearProgress();
+            this.$finishEvent.emit({ wizard: this, values, result: this.result });
+            return this.result;
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    /**
+     * Save the current step and the step values (excluding masked values). Called on every step change
+     */
+    saveProgress() {
+        const progress: WizardProgress = {
+            version: WIZARD_PROGRESS_VERSION,
+            current: this.current,
+            steps: this.steps.map((step) => step.form.$snapshot()),
+        };
+        try {
+            this.storage.setValue(this.storageKey, JSON.stringify(progress));
+        } catch (err) {
+            log.warn(`Error saving progress of wizard '${this.name}' using key '${this.storageKey}'`, err);
+        }
+    }
+
+    /**
+     * Restore the progress saved by 'saveProgress', e.g. when the user returns to the page. Returns whether
+     * there was any progress to restore
+     */
+    resume(): boolean {
+        let progress: WizardProgress | undefined;
+        try {
+            const stored = this.storage.getValue(this.storageKey);
+            progress = stored == undefined ? undefined : JSON.parse(stored);
+        } catch (err) {
+            log.warn(`Error loading progress of wizard '${this.name}' using key '${this.storageKey}'`, err);
+        }
+        if (!progress || progress.version != WIZARD_PROGRESS_VERSION) {
+            return false;
+        }
+        progress.steps.forEach((snapshot) => {
+            const step = _.find(this.steps, (s) => s.form.$formName == snapshot.formName);
+            if (!step) {
+                log.warn(`No step '${snapshot.formName}' in wizard '${this.name}', skipping its progress`);
+                return;
+            }
+            try {
+                step.form.$restore(snapshot);
+            } catch (err) {
+                log.warn(`Error restoring step '${snapshot.formName}' of wizard '${this.name}'`, err);
+            }
+        });
+        // the saved step may since have become skipped
+        this.current = this.activeFlags()[progress.current] ? progress.current : this.nextActive(-1, 1);
+        return true;
+    }
+
+    clearProgress() {
+        this.storage.removeValue(this.storageKey);
+    }
+
+    /**
+     * Dispose all the step forms, and remove the wizard's listeners
+     */
+    $dispose() {
+        this.steps.forEach((step) => step.form.$dispose());
+        this.$events.removeAllListeners();
+    }
+
+    private async navigate(direction: WizardDirection, to: number): Promise<boolean> {
+        this.busy = true;
+        try {
+            const step = this.currentStep;
+            if (direction == "next") {
+                step.form.$setShowValidationErrors(true);
+                if (!(await isStepValid(step.form))) {
+                    return false;
+                }
+            }
+            if (step.canLeave && !(await step.canLeave(direction, this))) {
+                return false;
+            }
+            this.moveTo(to);
+            return true;
+        } finally {
+            this.busy = false;
+        }
+    }
+
+    /**
+     * Make the given step the current one, saving progress and emitting the next or back event
+     */
+    private moveTo(to: number) {
+        const from = this.current;
+        if (to == from) {
+            return;
+        }
+        this.current = to;
+        this.saveProgress();
+        const event = to > from ? this.$nextEvent : this.$backEvent;
+        event.emit({ wizard: this, from, to });
+    }
+
+    /**
+     * The index of the next active step from the given one in the given direction, or -1 if there is none
+     */
+    private nextActive(from: number, direction: 1 | -1): number {
+        const active = this.activeFlags();
+        for (let i = from + direction; i >= 0 && i < this.steps.length; i += direction) {
+            if (active[i]) {
+                return i;
+            }
+        }
+        return -1;
+    }
+
+    /**
+     * Whether each step is active, in step order. Each condition is given the values of the earlier active steps
+     */
+    private activeFlags(): boolean[] {
+        const values: WizardValues = {};
+        return this.steps.map((step) => {
+            const active = !step.when || step.when({ ...values }, this);
+            if (active) {
+                values[step.form.$formName] = step.form.$values();
+            }
+            return active;
+        });
+    }
+}
+
+/**
+ * Validate the step once its async rules and file content loads (including in sub forms and array rows) complete
+ */
+async function isStepValid(form: PropertiesForm): Promise<boolean> {
+    const result = await form.$validateAsync();
+    return result.valid && !result.pending;
+}
@@ -0,0 +1,461 @@
+import _ from "lodash";
+import * as events from "./events";
+import { getLogger } from "./logger";
+import * as templates from "./templates";
+
+const log = getLogger("i18n");
+
+/**
+ * Arguments passed to a message when rendering
+ */
+export type MessageArgs = { [key: string]: any };
+
+/**
+ * A renderable message. Resolved against the current locale each time it's invoked, so changing the
+ * locale at runtime changes the rendered output
+ */
+export type MessageTemplate = (args?: MessageArgs) => string;
+
+/**
+ * Messages for a single locale, keyed by message key (e.g. 'string:minLength', 'file:maxSize')
+ */
+export type MessageBundle = { [key: string]: string };
+
+/**
+ * Given a number, return the CLDR plural category ('zero', 'one', 'two', 'few', 'many', 'other')
+ */
+export type PluralSelector = (count: number) => string;
+
+export interface LocaleOptions {
+    /**
+     * Explicit locale to fall back to after the locale's own subtags have been exhausted
+     */
+    parent?: string;
+    /**
+     * Custom plural category selector. If not set uses Intl.PluralRules where available
+     */
+    plural?: PluralSelector;
+}
+
+interface LocaleDef {
+    readonly locale: string;
+    readonly messages: MessageBundle;
+    parent?: string;
+    plural?: PluralSelector;
+}
+
+type MessagePart =
+    | string
+    | { type: "arg"; arg: string }
+    | { type: "template"; template: templates.CompiledTemplate }
+    | { type: "count" }
+    | { type: "plural"; arg: string; offset: number; options: { [selector: string]: MessagePart[] } }
+    | { type: "select"; arg: string; options: { [selector: string]: MessagePart[] } };
+
+export const DEFAULT_LOCALE = "en";
+
+const locales: { [locale: string]: LocaleDef } = {};
+const compiledCache: { [message: string]: MessagePart[] } = {};
+let currentLocale = DEFAULT_LOCALE;
+
+export const localeChangedEvent = events.defineEvent<{ locale: string; previous: string }>("i18n.LocaleChangedEvent");
+
+// compiled messages hold their compiled templates, which are bound to the formatters at the time
+templates.formatterRegisteredEvent.subscribe(() => clearCompiledCache());
+
+function clearCompiledCache() {
+    Object.keys(compiledCache).forEach((message) => delete compiledCache[message]);
+}
+
+function normaliseLocale(locale: string): string {
+    return (locale || DEFAULT_LOCALE).trim().replace(/_/g, "-");
+}
+
+/**
+ * Register a locale along with its messages. Calling this multiple times for the same locale merges the messages
+ *
+ * @param locale e.g. 'en', 'en-AU'
+ * @param messages the message bundle for this locale
+ * @param opts any additional locale options
+ */
+export function registerLocale(locale: string, messages: MessageBundle = {}, opts: LocaleOptions = {}) {
+    const name = normaliseLocale(locale);
+    let def = locales[name];
+    if (!def) {
+        def = { locale: name, messages: {} };
+        locales[name] = def;
+    }
+    _.assign(def.messages, messages);
+    if (opts.parent) {
+        def.parent = normaliseLocale(opts.parent);
+    }
+    if (opts.plural) {
+        def.plural = opts.plural;
+    }
+    log.debug(`registered locale '${name}'`);
+}
+
+/**
+ * Add messages to an existing (or new) locale
+ */
+export function addMessages(locale: string, messages: MessageBundle) {
+    registerLocale(locale, messages);
+}
+
+/**
+ * Remove a locale and all its messages
+ */
+export function unregisterLocale(locale: string) {
+    delete locales[normaliseLocale(locale)];
+}
+
+export function getLocales(): string[] {
+    return Object.keys(locales);
+}
+
+export function getLocale(): string {
+    return currentLocale;
+}
+
+/**
+ * Change the current locale. All messages obtained via 'getOr' will render using the new locale the
+ * next time they are invoked
+ *
+ * @param locale the new locale
+ */
+export function setLocale(locale: string) {
+    const next = normaliseLocale(locale);
+    if (next === currentLocale) {
+        return;
+    }
+    const previous = currentLocale;
+    currentLocale = next;
+    log.debug("locale changed", { from: previous, to: next });
+    localeChangedEvent.emit({ locale: next, previous });
+}
+
+/**
+ * Return the locales to search in order. E.g. 'en-AU' -> ['en-AU', 'en']. Explicit parents are appended
+ * after a locale's own subtags
+ *
+ * @param locale the locale to start from. Defaults to the current locale
+ */
+export function getFallbackChain(locale: string = currentLocale): string[] {
+    const chain: string[] = [];
+    let next: string | undefined = normaliseLocale(locale);
+    while (next && chain.indexOf(next) == -1) {
+        const subtags = next.split("-");
+        for (let i = subtags.length; i > 0; i--) {
+            const tag = subtags.slice(0, i).join("-");
+            if (chain.indexOf(tag) == -1) {
+                chain.push(tag);
+            }
+        }
+        const def: LocaleDef | undefined = locales[next];
+        next = def ? def.parent : undefined;
+    }
+    return chain;
+}
+
+function findMessage(key: string, locale: string): { message: string; locale: string } | undefined {
+    const chain = getFallbackChain(locale);
+    for (let i = 0; i < chain.length; i++) {
+        const def = locales[chain[i]];
+        if (def && def.messages[key] != undefined) {
+            return { message: def.messages[key], locale: def.locale };
+        }
+    }
+    return undefined;
+}
+
+/**
+ * If there is a message registered for the given key in the locale (or its fallbacks)
+ */
+export function has(key: string, locale: string = currentLocale): boolean {
+    return findMessage(key, locale) != undefined;
+}
+
+/**
+ * Return the raw (unrendered) message for the given key, or undefined if none registered
+ */
+export function get(key: string, locale: string = currentLocale): string | undefined {
+    const found = findMessage(key, locale);
+    return found ? found.message : undefined;
+}
+
+/**
+ * Render the message for the given key. If no message is registered then the default message is rendered instead
+ *
+ * @param key the message key
+ * @param args the message arguments
+ * @param defaultMessage what to render if no message is registered. If not set, the key is returned
+ */
+export function format(key: string, args: MessageArgs = {}, defaultMessage?: string): string {
+    const found = findMessage(key, currentLocale);
+    if (found) {
+        return renderMessage(found.message, args, found.locale);
+    }
+    if (defaultMessage == undefined) {
+        return key;
+    }
+    return renderMessage(defaultMessage, args, currentLocale);
+}
+
+/**
+ * Return a message template for the given key, which falls back to the given default message. The lookup
+ * is performed each time the template is invoked so locale changes are picked up
+ *
+ * @param key the message key
+ * @param defaultMessage the message to use if none is registered for the key
+ */
+export function getOr(key: string, defaultMessage: string): MessageTemplate {
+    return (args?: MessageArgs) => format(key, args, defaultMessage);
+}
+
+/**
+ * Resolve text which may either be a message key or the literal text itself. Used for labels, hints etc
+ *
+ * @param keyOrText
+ * @param args
+ */
+export function resolve(keyOrText: string, args?: MessageArgs): string;
+export function resolve(keyOrText: string | undefined, args?: MessageArgs): string | undefined;
+export function resolve(keyOrText: string | undefined, args: MessageArgs = {}): string | undefined {
+    if (keyOrText == undefined) {
+        return undefined;
+    }
+    const found = findMessage(keyOrText, currentLocale);
+    return found ? renderMessage(found.message, args, found.locale) : keyOrText;
+}
+
+/**
+ * Render the given message using the given args. Supports '${path|formatter}' placeholders (see templates) and ICU style
+ * '{count, plural, one {# item} other {# items}}' and '{gender, select, male {he} other {they}}' blocks
+ *
+ * @param message the message to render
+ * @param args values to render
+ * @param locale the locale to use for plural rules
+ */
+export function renderMessage(message: string, args: MessageArgs = {}, locale: string = currentLocale): string {
+    return renderParts(compileMessage(message), args, locale, undefined);
+}
+
+/**
+ * Return the names of the args the given message requires. Nested paths only return the root, e.g.
+ * '${expects.min}' returns 'expects'
+ *
+ * @param message the message to inspect
+ */
+export function messageArgs(message: string): string[] {
+    const args: string[] = [];
+    const collect = (parts: MessagePart[]) => {
+        parts.forEach((part) => {
+            if (typeof part === "string") {
+                return;
+            }
+            switch (part.type) {
+                case "arg":
+                    args.push(templates.rootOf(part.arg));
+                    break;
+                case "template":
+                    args.push(...part.template.paths.map(templates.rootOf));
+                    break;
+                case "plural":
+                case "select":
+                    args.push(templates.rootOf(part.arg));
+                    _.forEach(part.options, collect);
+                    break;
+            }
+        });
+    };
+    collect(compileMessage(message));
+    return _.uniq(args);
+}
+
+function compileMessage(message: string): MessagePart[] {
+    let parts = compiledCache[message];
+    if (!parts) {
+        parts = parseParts(message, { pos: 0 }, false);
+        compiledCache[message] = parts;
+    }
+    return parts;
+}
+
+function pluralCategory(locale: string, count: number): string {
+    const chain = getFallbackChain(locale);
+    for (let i = 0; i < chain.length; i++) {
+        const def = locales[chain[i]];
+        if (def && def.plural) {
+            return def.plural(count);
+        }
+    }
+    const intl = typeof Intl !== "undefined" ? (Intl as any) : undefined;
+    if (intl && intl.PluralRules) {
+        try {
+            return new intl.PluralRules(locale).select(count);
+        } catch (err) {
+            log.trace(`no plural rules for locale '${locale}'`, err);
+        }
+    }
+    return count === 1 ? "one" : "other";
+}
+
+function renderParts(parts: MessagePart[], args: MessageArgs, locale: string, count: number | undefined): string {
+    let s = "";
+    parts.forEach((part) => {
+        if (typeof part === "string") {
+            s += part;
+            return;
+        }
+        switch (part.type) {
+            case "count":
+                s += count == undefined ? "#" : `${count}`;
+                break;
+            case "template":
+                s += part.template(args, { locale });
+                break;
+            case "arg": {
+                const val = _.get(args, part.arg);
+                s += val == undefined ? "" : `${val}`;
+                break;
+            }
+            case "plural": {
+                const n = Number(_.get(args, part.arg)) - part.offset;
+                const exact = part.options[`=${n + part.offset}`];
+                const selected = exact || part.options[pluralCategory(locale, n)] || part.options["other"] || [];
+                s += renderParts(selected, args, locale, n);
+                break;
+            }
+            case "select": {
+                const val = `${_.get(args, part.arg)}`;
+                const selected = part.options[val] || part.options["other"] || [];
+                s += renderParts(selected, args, locale, count);
+                break;
+            }
+        }
+    });
+    return s;
+}
+
+const argHeaderRegex = /^\{\s*([\w.]+)\s*(?:,\s*(plural|select)\s*)?/;
+
+function parseParts(message: string, state: { pos: number }, inPlural: boolean, nested = false): MessagePart[] {
+    const parts: MessagePart[] = [];
+    let text = "";
+    const flushText = () => {
+        if (text.length > 0) {
+            parts.push(text);
+            text = "";
+        }
+    };
+    while (state.pos < message.length) {
+        const c = message[state.pos];
+        if (c === "$" && message[state.pos + 1] === "{") {
+            // '${..}' placeholders are handed off to the template engine
+            flushText();
+            const next = placeholderEnd(message, state.pos + 2) + 1;
+            parts.push({ type: "template", template: templates.compile(message.substring(state.pos, next)) });
+            state.pos = next;
+            continue;
+        }
+        if (c === "}" && nested) {
+            break;
+        }
+        if (c === "#" && inPlural) {
+            flushText();
+            parts.push({ type: "count" });
+            state.pos++;
+            continue;
+        }
+        if (c === "{") {
+            const part = parseArg(message, state, inPlural);
+            if (part) {
+                flushText();
+                parts.push(part);
+                continue;
+            }
+        }
+        text += c;
+        state.pos++;
+    }
+    flushText();
+    return parts;
+}
+
+function placeholderEnd(message: string, from: number): number {
+    let quote: string | undefined;
+    for (let i = from; i < message.length; i++) {
+        const c = message[i];
+        if (quote) {
+            quote = c === quote ? undefined : quote;
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === "}") {
+            return i;
+        }
+    }
+    throw new Error(`Invalid message format, unterminated placeholder at position ${from - 2} in '${message}'`);
+}
+
+function parseArg(message: string, state: { pos: number }, inPlural: boolean): MessagePart | undefined {
+    const header = argHeaderRegex.exec(message.substring(state.pos));
+    if (!header) {
+        return undefined;
+    }
+    const arg = header[1];
+    const type = header[2] as "plural" | "select" | undefined;
+    let pos = state.pos + header[0].length;
+    const skipWhitespace = () => {
+        while (pos < message.length && /\s/.test(message[pos])) {
+            pos++;
+        }
+    };
+    skipWhitespace();
+    if (!type) {
+        // simple '{arg}', anything else is treated as literal text
+        if (message[pos] !== "}") {
+            return undefined;
+        }
+        state.pos = pos + 1;
+        return { type: "arg", arg };
+    }
+    if (message[pos] !== ",") {
+        throw new Error(`Invalid message format, expected ',' after '${type}' at position ${pos} in '${message}'`);
+    }
+    pos++;
+    skipWhitespace();
+    let offset = 0;
+    const offsetMatch = /^offset:\s*(\d+)/.exec(message.substring(pos));
+    if (offsetMatch) {
+        offset = parseInt(offsetMatch[1]);
+        pos += offsetMatch[0].length;
+    }
+    const options: { [selector: string]: MessagePart[] } = {};
+    for (;;) {
+        skipWhitespace();
+        if (pos >= message.length) {
+            throw new Error(`Invalid message format, unterminated '${type}' for '${arg}' in '${message}'`);
+        }
+        if (message[pos] === "}") {
+            pos++;
+            break;
+        }
+        const selectorMatch = /^(=?[\w-]+)\s*\{/.exec(message.substring(pos));
+        if (!selectorMatch) {
+            throw new Error(`Invalid message format, expected selector at position ${pos} in '${message}'`);
+        }
+        const optionState = { pos: pos + selectorMatch[0].length };
+        options[selectorMatch[1]] = parseParts(message, optionState, inPlural || type === "plural", true);
+        if (message[optionState.pos] !== "}") {
+            throw new Error(`Invalid message format, unterminated option '${selectorMatch[1]}' in '${message}'`);
+        }
+        pos = optionState.pos + 1;
+    }
+    state.pos = pos;
+    if (type === "plural") {
+        return { type: "plural", arg, offset, options };
+    }
+    return { type: "select", arg, options };
+}
+
+registerLocale(DEFAULT_LOCALE);
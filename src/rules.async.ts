@@ -0,0 +1,270 @@
+import { CqrsApi, GetQuery, GetQueryResponse } from "./cqrs";
+import { EventPromise } from "./events";
+import * as files from "./files";
+import * as i18n from "./i18n";
+import { getLogger } from "./logger";
+import * as rules from "./rules";
+
+const rulesLog = getLogger("rules.async");
+
+export interface AsyncValidationContext extends rules.ValidationContext {
+    /**
+     * True once the check has been cancelled (e.g. the value changed again). Long running matchers should check
+     * this and stop early
+     */
+    readonly cancelled: boolean;
+}
+
+/**
+ * A rule which needs to perform asynchronous work, e.g. checking a username is not already taken
+ */
+export interface AsyncRule<TValue = any> {
+    /**
+     * Unique key of this rule. Also used to locate localisation messages
+     */
+    key: string;
+    /**
+     * The values used to create this rule.
+     */
+    expects: { [key: string]: any };
+    /**
+     * The severity of issues raised by this rule
+     */
+    severity: rules.Severity;
+    /**
+     * Marker to distinguish from sync rules
+     */
+    readonly async: true;
+    /**
+     * Invoke the rule validator with the given field value, resolving to a vuetify compatible result
+     */
+    (fieldValue: TValue): EventPromise<rules.ValidationResult>;
+    /**
+     * Validate the given value, resolving to any issues found. Cancel the returned promise to abandon the check
+     */
+    validate(fieldValue: TValue, ctxt?: rules.ValidationContext): EventPromise<rules.ValidationIssue[]>;
+}
+
+/**
+ * Create a new async rule
+ *
+ * @param opts
+ */
+export function newAsyncRule<TValue = any>(opts: {
+    /** Unique error key for lookup by other tools */
+    key: string;
+    /** The error message template. Supports '${path|formatter}' placeholders, see templates */
+    errorMsgTemplate: string;
+    /** The values used to configure this rule */
+    expect?: { [key: string]: any };
+    /** The severity of any issues raised. Defaults to 'error' */
+    severity?: rules.Severity;
+    /** What performs the actual check whether the value passes */
+    matcher: (
+        value: TValue | undefined | null,
+        ctxt: AsyncValidationContext
+    ) => PromiseLike<boolean | string | rules.ValidationIssue[]>;
+    /** Optional conveter to convert the expected values into something suitable for the error templates */
+    convertErrorArgs?: (args: { [key: string]: any } & { actual: any }) => {};
+}): AsyncRule<TValue> {
+    const key = opts.key;
+    const matcher = opts.matcher;
+    const expects = opts.expect || {};
+    const severity = opts.severity || "error";
+    const renderError = rules.newErrorRenderer(key, opts.errorMsgTemplate, expects, opts.convertErrorArgs);
+
+    const validate = (value: TValue, ctxt: rules.ValidationContext = {}): EventPromise<rules.ValidationIssue[]> => {
+        const path = ctxt.path || [];
+        let cancelled = false;
+        const asyncCtxt: AsyncValidationContext = {
+            ...ctxt,
+            path,
+            get cancelled() {
+                return cancelled;
+            },
+        };
+        const check = Promise.resolve(matcher(value, asyncCtxt)).then((result) => {
+            if (result === true) {
+                return [];
+            }
+            if (Array.isArray(result)) {
+                return result;
+            }
+            rulesLog.trace("async rule failed", key, value);
+            const message = typeof result == "string" ? result : renderError(value);
+            return [{ key, expects, actual: value, severity, message, path }];
+        });
+        return EventPromise.cancelable(check, (reason) => {
+            rulesLog.trace("async rule cancelled", key, reason);
+            cancelled = true;
+        });
+    };
+
+    const invoke = (value: TValue) => validate(value).then(rules.toValidationResult);
+    // allow other tools/UI to determine what rules are in force
+    const rule: AsyncRule<TValue> = Object.assign(invoke, { key, expects, severity, async: true as const, validate });
+
+    return rule;
+}
+
+export function isAsyncRule(rule: any): rule is AsyncRule<any> {
+    return typeof rule === "function" && rule.async === true && typeof rule.validate === "function";
+}
+
+/**
+ * Run all the given async rules in parallel, resolving to all the issues found. Cancelling the returned
+ * promise cancels all the in-flight rules
+ *
+ * @param asyncRules the rules to run
+ * @param value the value to check
+ * @param ctxt the validation context
+ */
+export function validateAllAsync(
+    asyncRules: AsyncRule<any>[],
+    value: any,
+    ctxt: rules.ValidationContext = {}
+): EventPromise<rules.ValidationIssue[]> {
+    const checks = asyncRules.map((rule) => rule.validate(value, ctxt));
+    const all = Promise.all(checks).then((results) => {
+        const issues: rules.ValidationIssue[] = [];
+        results.forEach((result) => issues.push(...result));
+        return issues;
+    });
+    return EventPromise.cancelable(all, (reason) => {
+        checks.forEach((check) => check.cancel(reason));
+    });
+}
+
+/**
+ * Create a rule which runs a get query against the backend to check the value. E.g. checking a username
+ * or email is not already taken
+ *
+ * @param opts
+ */
+export function getQueryRule<TValue, TCriteria, TResult>(opts: {
+    /** Unique error key for lookup by other tools */
+    key: string;
+    /** The error message template */
+    errorMsgTemplate: string;
+    /** The values used to configure this rule */
+    expect?: { [key: string]: any };
+    severity?: rules.Severity;
+    /** The api to run the query against */
+    api: CqrsApi;
+    /** Create the query to run for the given value */
+    query: (value: TValue) => GetQuery<TCriteria, TResult>;
+    /** Given the query response, whether the value passes */
+    matcher: (response: GetQueryResponse<TResult>, value: TValue) => boolean | string;
+}): AsyncRule<TValue> {
+    return newAsyncRule<TValue>({
+        key: opts.key,
+        errorMsgTemplate: opts.errorMsgTemplate,
+        expect: opts.expect,
+        severity: opts.severity,
+        matcher: async (value, ctxt) => {
+            if (value == undefined || value == null) {
+                return true;
+            }
+            const response = await opts.api.get(opts.query(value));
+            // the transport can't be aborted, so just ignore the response
+            if (ctxt.cancelled) {
+                return true;
+            }
+            return opts.matcher(response, value);
+        },
+    });
+}
+
+/**
+ * A file upload, or its raw bytes
+ */
+export type SniffableFile = File | Blob | Uint8Array;
+
+function sniffIssue(
+    key: string,
+    detectedTemplate: string,
+    expects: { [key: string]: any },
+    declared: string | undefined,
+    detected: files.SniffedType,
+    ctxt: AsyncValidationContext
+): rules.ValidationIssue[] {
+    const args = { ...expects, declared, detected: detected.mediaType };
+    return [
+        {
+            key,
+            expects,
+            actual: detected.mediaType,
+            severity: "error",
+            message: i18n.format(`${key}.detected`, args, detectedTemplate),
+            path: ctxt.path || [],
+        },
+    ];
+}
+
+function declaredType(value: SniffableFile): string | undefined {
+    return value instanceof Uint8Array ? undefined : value.type || undefined;
+}
+
+/**
+ * Check the real format of the file, detected from its leading bytes (see files.sniffContentType), is one of the
+ * allowed media types. Unlike 'fileContentMediaType' this doesn't trust the type reported by the browser. The
+ * issue's 'actual' is the detected media type
+ *
+ * @param mediaTypes the allowed media types. Supports wildcards like 'image/*'
+ */
+export function fileSniffedType(...mediaTypes: string[]): AsyncRule<SniffableFile> {
+    const key = "file:sniffedType";
+    const expects = { mediaTypes };
+    return newAsyncRule<SniffableFile>({
+        key,
+        errorMsgTemplate: "Expect the content to be ${mediaTypes|quoted|list:or}",
+        expect: expects,
+        matcher: async (value, ctxt) => {
+            if (value == undefined || value == null) {
+                return true;
+            }
+            const detected = await files.sniffFile(value);
+            if (ctxt.cancelled || mediaTypes.some((mediaType) => files.isCompatibleType(mediaType, detected))) {
+                return true;
+            }
+            return sniffIssue(
+                key,
+                "Expect the content to be ${mediaTypes|quoted|list:or}, but it looks like '${detected}'",
+                expects,
+                declaredType(value),
+                detected,
+                ctxt
+            );
+        },
+    });
+}
+
+/**
+ * Check the type the file declares (e.g. as reported by the browser) matches its real format, detected from its
+ * leading bytes. Files without a declared type, and raw bytes, pass. The issue's 'actual' is the detected media type
+ */
+export function fileSniffedTypeMatches(): AsyncRule<SniffableFile> {
+    const key = "file:sniffedTypeMismatch";
+    return newAsyncRule<SniffableFile>({
+        key,
+        errorMsgTemplate: "Expect the content to match the file type",
+        matcher: async (value, ctxt) => {
+            const declared = value == undefined || value == null ? undefined : declaredType(value);
+            if (value == undefined || value == null || declared == undefined) {
+                return true;
+            }
+            const detected = await files.sniffFile(value);
+            if (ctxt.cancelled || files.isCompatibleType(declared, detected)) {
+                return true;
+            }
+            return sniffIssue(
+                key,
+                "The file claims to be '${declared}', but its content looks like '${detected}'",
+                {},
+                declared,
+                detected,
+                ctxt
+            );
+        },
+    });
+}
@@ -1,8 +1,11 @@
 import passwordStrength from "check-password-strength";
 import _ from "lodash";
+import moment from "moment";
+import * as converters from "./converters";
 import * as i18n from "./i18n";
 import { getLogger } from "./logger";
-import { FileInfo } from "./types.js";
+import * as templates from "./templates";
+import { CsvTextFile, FileInfo } from "./types.js";
 
 const rulesLog = getLogger("rules");
 
@@ -15,6 +18,54 @@ export type ValidationResult = string | boolean;
  */
 export type ValidationRule = (value: any) => ValidationResult;
 
+/**
+ * How serious a validation issue is. Only 'error' issues cause a rule to fail
+ */
+export type Severity = "error" | "warning" | "info";
+
+/**
+ * Location of a value being validated. Strings are property names, numbers are item indexes
+ */
+export type ValidationPath = Array<string | number>;
+
+/**
+ * Structured result of a failed rule, so the UI and server can act on more than a rendered message
+ */
+export interface ValidationIssue {
+    /**
+     * Key of the rule which raised this issue
+     */
+    readonly key: string;
+    /**
+     * The values the rule was configured with
+     */
+    readonly expects: { [key: string]: any };
+    /**
+     * The value which failed validation
+     */
+    readonly actual: any;
+    readonly severity: Severity;
+    /**
+     * The rendered message, in the current locale
+     */
+    readonly message: string;
+    /**
+     * Where the failed value is, relative to where validation started
+     */
+    readonly path: ValidationPath;
+}
+
+export interface ValidationContext {
+    /**
+     * The path of the value being validated. Issues are reported relative to this
+     */
+    path?: ValidationPath;
+    /**
+     * The values of the sibling properties, keyed by property name. Used by cross field rules
+     */
+    values?: { [name: string]: any };
+}
+
 export interface Rule<TValue = any> {
     /**
      * Unique key of this rule. Also used to locate localisation messages
@@ -25,9 +76,27 @@ export interface Rule<TValue = any> {
      */
     expects: { [key: string]: any };
     /**
-     * Invoke the rule validator with the given field value. The rule will have to perform any null checks
+     * The severity of issues raised by this rule
+     */
+    severity: Severity;
+    /**
+     * Names of sibling properties this rule reads. The rule is re-run when any of them change
+     */
+    dependsOn?: string[];
+    /**
+     * The rules a combinator (e.g. 'allOf', 'eachItem') is made of, so tooling can walk the whole rule tree. See
+     * walkRules
+     */
+    rules?: Rule<any>[];
+    /**
+     * Invoke the rule validator with the given field value. The rule will have to perform any null checks. Only
+     * 'error' issues are returned as failures, so this can be used directly as a vuetify rule
      */
     (fieldValue: TValue): ValidationResult;
+    /**
+     * Validate the given value, returning any issues found. An empty list means the value passed
+     */
+    validate(fieldValue: TValue, ctxt?: ValidationContext): ValidationIssue[];
 }
 
 /**
@@ -38,37 +107,90 @@ export interface Rule<TValue = any> {
 export function newRule<TValue = any>(opts: {
     /** Unique error key for lookup by other tools */
     key: string;
-    /** The error message template */
+    /** The error message template. Supports '${path|formatter}' placeholders, see templates */
     errorMsgTemplate: string;
     /** The values used to configure this rule */
     expect?: { [key: string]: any };
     singular: boolean;
-    /** What performs the actual test whether the value passes the check */
-    matcher: (value: TValue | undefined | null) => boolean | string;
+    /** The severity of any issues raised. Defaults to 'error' */
+    severity?: Severity;
+    /** Names of any sibling properties this rule reads */
+    dependsOn?: string[];
+    /** The rules this rule combines, if it's a combinator */
+    rules?: Rule<any>[];
+    /**
+     * What performs the actual test whether the value passes the check. Rules which wrap other rules can
+     * return the nested issues instead, where an empty list is a pass
+     */
+    matcher: (value: TValue | undefined | null, ctxt: ValidationContext) => boolean | string | ValidationIssue[];
     /** Optional converter to convert the incoming value to the type this rule requires */
     valueConverter?: (value: any) => TValue | undefined;
     /** Optional conveter to convert the expected values into something suitable for the error templates */
     convertErrorArgs?: (args: { [key: string]: any } & { actual: any }) => {};
 }): Rule<TValue> {
     const key = opts.key;
-    // provide the ability to override the default templates
-    const errorMsgTemplate = i18n.getOr(key, opts.errorMsgTemplate);
-    const convertErrorArgs = opts.convertErrorArgs;
     const matcher = opts.matcher;
+    const valueConverter = opts.valueConverter;
     const expects = opts.expect || {};
-    //the function which gets called to validate a rule
-    const rule = <Rule<TValue>>function (value: TValue) {
-        const result = matcher(value);
-        if (result == true) {
-            return true;
+    const severity = opts.severity || "error";
+    const renderError = newErrorRenderer(key, opts.errorMsgTemplate, expects, opts.convertErrorArgs);
+
+    const validate = (value: TValue, ctxt: ValidationContext = {}): ValidationIssue[] => {
+        const path = ctxt.path || [];
+        const result = matcher(valueConverter ? valueConverter(value) : value, { ...ctxt, path });
+        if (result === true) {
+            return [];
         }
-        if (typeof result == "string") {
+        if (Array.isArray(result)) {
             return result;
         }
         rulesLog.trace("rule failed", key, value);
+        const message = typeof result == "string" ? result : renderError(value);
+        return [{ key, expects, actual: value, severity, message, path }];
+    };
+
+    //the function which gets called to validate a rule
+    const rule = <Rule<TValue>>function (value: TValue) {
+        return toValidationResult(validate(value));
+    };
+    // allow other tools/UI to determine what rules are in force
+    rule.key = opts.key;
+    rule.expects = expects;
+    rule.severity = severity;
+    rule.validate = validate;
+    if (opts.dependsOn) {
+        rule.dependsOn = opts.dependsOn;
+    }
+    if (opts.rules) {
+        rule.rules = opts.rules;
+    }
+
+    return rule;
+}
+
+/**
+ * Create the function which renders a failed rule's error message. Also used by rule factories which don't go
+ * through 'newRule' (e.g. async rules)
+ *
+ * @param key the rule key, used to lookup any localised template
+ * @param defaultTemplate the template to use if there is no localised one
+ * @param expects the values the rule was configured with
+ * @param convertErrorArgs optional converter for the template args
+ */
+export function newErrorRenderer(
+    key: string,
+    defaultTemplate: string,
+    expects: { [key: string]: any },
+    convertErrorArgs?: (args: { [key: string]: any } & { actual: any }) => {}
+): (value: any) => string {
+    // provide the ability to override the default templates. Resolved against the current locale on each failure
+    const errorMsgTemplate = i18n.getOr(key, defaultTemplate);
+    // fail fast if the templates reference args this rule can't provide, rather than when the rule fails
+    validateErrorTemplates(key, defaultTemplate, expects, convertErrorArgs);
+
+    return (value: any) => {
         const mergedArgs = _.merge({}, expects, { actual: value });
         const errorArgs = convertErrorArgs ? convertErrorArgs(mergedArgs) : mergedArgs;
-
         try {
             return errorMsgTemplate(errorArgs);
         } catch (err) {
@@ -80,11 +202,111 @@ export function newRule<TValue = any>(opts: {
             return "Invalid";
         }
     };
-    // allow other tools/UI to determine what rules are in force
-    rule.key = opts.key;
-    rule.expects = expects;
+}
 
-    return rule;
+/**
+ * Convert the given issues into a vuetify compatible result. Issues for list items are prefixed with the item number
+ *
+ * @param issues the issues to convert
+ */
+export function toValidationResult(issues: ValidationIssue[]): ValidationResult {
+    const error = _.find(issues, (issue) => issue.severity == "error");
+    if (!error) {
+        return true;
+    }
+    const index = _.find(error.path, (p) => typeof p === "number");
+    if (index == undefined) {
+        return error.message;
+    }
+    return i18n.format(
+        "list:itemInvalid",
+        { index: (index as number) + 1, message: error.message },
+        "Item ${index} is invalid. ${message}"
+    );
+}
+
+/**
+ * Run the given rule, returning any issues. Plain validation functions which are not created via
+ * 'newRule' are adapted, with any failure (or thrown error) reported under the key 'custom'
+ *
+ * @param rule the rule to run
+ * @param value the value to check
+ * @param ctxt the validation context
+ */
+export function validateWith(
+    rule: Rule<any> | ValidationRule,
+    value: any,
+    ctxt: ValidationContext = {}
+): ValidationIssue[] {
+    const path = ctxt.path || [];
+    let result: ValidationResult;
+    try {
+        if (isRule(rule)) {
+            return rule.validate(value, { ...ctxt, path });
+        }
+        result = rule(value);
+    } catch (err) {
+        result = `${err}`;
+    }
+    if (result === true) {
+        return [];
+    }
+    const message = typeof result === "string" ? result : i18n.format("custom", {}, "Invalid");
+    return [{ key: "custom", expects: {}, actual: value, severity: "error", message, path }];
+}
+
+/**
+ * Run all the given rules against the value, returning all the issues found
+ */
+export function validateAll(
+    rules: Array<Rule<any> | ValidationRule>,
+    value: any,
+    ctxt: ValidationContext = {}
+): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    rules.forEach((rule) => issues.push(...validateWith(rule, value, ctxt)));
+    return issues;
+}
+
+export function isRule(rule: any): rule is Rule<any> {
+    return typeof rule === "function" && typeof rule.key === "string" && typeof rule.validate === "function";
+}
+
+/**
+ * Convert a path to a display/lookup string, e.g. ['addresses', 2, 'street'] gives 'addresses[2].street'
+ */
+export function pathToString(path: ValidationPath): string {
+    return path.reduce<string>((s, p) => {
+        if (typeof p === "number") {
+            return `${s}[${p}]`;
+        }
+        return s.length == 0 ? p : `${s}.${p}`;
+    }, "");
+}
+
+/**
+ * Ensure the default and any localised error templates only reference args the rule will provide
+ */
+function validateErrorTemplates(
+    key: string,
+    defaultTemplate: string,
+    expects: { [key: string]: any },
+    convertErrorArgs?: (args: { [key: string]: any } & { actual: any }) => {}
+) {
+    const sampleArgs = _.merge({}, expects, { actual: undefined });
+    const available = Object.keys(convertErrorArgs ? convertErrorArgs(sampleArgs) : sampleArgs);
+    const localised = i18n.get(key);
+    const sources = localised == undefined ? [defaultTemplate] : [defaultTemplate, localised];
+    sources.forEach((source) => {
+        const missing = i18n.messageArgs(source).filter((arg) => available.indexOf(arg) == -1);
+        if (missing.length > 0) {
+            throw new templates.TemplateError({
+                key: "TEMPLATE_MISSING_ARGS",
+                message: `Error template for rule '${key}' references missing args [${missing.join(",")}]`,
+                data: { key, source, missing, available },
+            });
+        }
+    });
 }
 
 function isNullOrUndefined<T>(value: T | undefined | null): value is undefined | null {
@@ -130,42 +352,25 @@ export function maxLength(max: number): Rule<string> {
     });
 }
 
-function toUnitsSize(bytes: number) {
-    let units = " bytes";
-    let sizeInUnits = bytes;
-    if (bytes >= 1e9) {
-        units = "gB";
-        sizeInUnits = bytes / 1e9;
-    } else if (bytes >= 1e6) {
-        units = "mB";
-        sizeInUnits = bytes / 1e6;
-    } else if (bytes >= 1e3) {
-        units = "kB";
-        sizeInUnits = bytes / 1e3;
-    }
-
-    return { units, sizeInUnits: sizeInUnits.toPrecision(3) };
-}
-
 export function minFileSize(minBytes: number): Rule<FileInfo> {
-    const min = toUnitsSize(minBytes);
+    const min = templates.toUnitsSize(minBytes);
 
     return newRule({
         key: "file:minSize",
-        errorMsgTemplate: "Expect a minium size of ${minInUnits}${units}",
-        expect: { units: min.units, minInUnits: min.sizeInUnits },
+        errorMsgTemplate: "Expect a minium size of ${min|fileSize}",
+        expect: { min: minBytes, units: min.units, minInUnits: min.sizeInUnits },
         singular: true,
         matcher: (value) => isNullOrUndefined(value) || value.size >= minBytes,
     });
 }
 
 export function maxFileSize(maxBytes: number): Rule<FileInfo> {
-    const max = toUnitsSize(maxBytes);
+    const max = templates.toUnitsSize(maxBytes);
 
     return newRule({
         key: "file:maxSize",
-        errorMsgTemplate: "Expect a maximum size of ${maxInUnits}${units}",
-        expect: { units: max.units, maxInUnits: max.sizeInUnits },
+        errorMsgTemplate: "Expect a maximum size of ${max|fileSize}",
+        expect: { max: maxBytes, units: max.units, maxInUnits: max.sizeInUnits },
         singular: true,
         matcher: (value) => isNullOrUndefined(value) || value.size <= maxBytes,
     });
@@ -196,6 +401,100 @@ export function fileContentMediaType(mediaType: string): Rule<File> {
     });
 }
 
+/**
+ * Create an issue for each CSV row which fails the check. The issue path ends with the row index and column, and
+ * the message names the (1 based) data row number
+ */
+function csvRowIssues(
+    key: string,
+    cellTemplate: string,
+    expects: { [key: string]: any },
+    file: CsvTextFile,
+    ctxt: ValidationContext,
+    passes: (cell: any) => boolean
+): ValidationIssue[] {
+    const column: string = expects.column;
+    const issues: ValidationIssue[] = [];
+    (file.rows || []).forEach((row, index) => {
+        const actual = row[column];
+        if (!passes(actual)) {
+            issues.push({
+                key,
+                expects,
+                actual,
+                severity: "error",
+                message: i18n.format(`${key}.cell`, { ...expects, row: index + 1, actual }, cellTemplate),
+                path: [...(ctxt.path || []), "rows", index, column],
+            });
+        }
+    });
+    return issues;
+}
+
+function isBlank(value: any): boolean {
+    return isNullOrUndefined(value) || (typeof value === "string" && value.trim().length == 0);
+}
+
+/**
+ * Every row of the CSV file needs a value in the given column. Only checked once the rows are loaded (see
+ * files.loadCsvFile)
+ *
+ * @param column the column name
+ */
+export function csvColumnRequired(column: string): Rule<CsvTextFile> {
+    const key = "csv:columnRequired";
+    const expects = { column };
+    return newRule<CsvTextFile>({
+        key,
+        errorMsgTemplate: "Expect a value in column '${column}' in every row",
+        expect: expects,
+        singular: true,
+        matcher: (value, ctxt) =>
+            isNullOrUndefined(value) ||
+            csvRowIssues(key, "Row ${row}: expect a value in column '${column}'", expects, value, ctxt, (cell) => {
+                return !isBlank(cell);
+            }),
+    });
+}
+
+/**
+ * Any values in the given CSV column need to match the pattern
+ *
+ * @param column the column name
+ * @param pattern the pattern to match
+ */
+export function csvColumnPattern(column: string, pattern: string | RegExp): Rule<CsvTextFile> {
+    const re = typeof pattern === "string" ? RegExp(pattern) : pattern;
+    const key = "csv:columnPattern";
+    const expects = { column, pattern: re.source };
+    return newRule<CsvTextFile>({
+        key,
+        errorMsgTemplate: "Expect values in column '${column}' to match pattern ${pattern}",
+        expect: expects,
+        singular: true,
+        matcher: (value, ctxt) =>
+            isNullOrUndefined(value) ||
+            csvRowIssues(
+                key,
+                "Row ${row}: expect column '${column}' to match pattern ${pattern}",
+                expects,
+                value,
+                ctxt,
+                (cell) => isBlank(cell) || re.test(`${cell}`)
+            ),
+    });
+}
+
+export function csvMaxRows(max: number): Rule<CsvTextFile> {
+    return newRule<CsvTextFile>({
+        key: "csv:maxRows",
+        errorMsgTemplate: "Expect no more than ${max} rows",
+        expect: { max },
+        singular: true,
+        matcher: (value) => isNullOrUndefined(value) || value.rows == undefined || value.rows.length <= max,
+    });
+}
+
 export function pattern(pattern: string | RegExp): Rule<string> {
     let re: RegExp;
     if (typeof pattern === "string") {
@@ -234,10 +533,7 @@ export function maxLines(max: number): Rule<string> {
 export function oneOf(values: string[]): Rule<string> {
     return newRule({
         key: "string:oneOf",
-        errorMsgTemplate: "Expect one of [${values}] lines",
-        convertErrorArgs: (args) => {
-            return { values: args.values.map((v: unknown) => `'${v}'`).join(",") };
-        },
+        errorMsgTemplate: "Expect one of [${values|quoted|join}]",
         expect: { values },
         singular: true,
         matcher: (value) => isNullOrUndefined(value) || _.includes(values, value),
@@ -264,54 +560,223 @@ export function maxItems(max: number): Rule<string[]> {
     });
 }
 
+/**
+ * The key and expects of a rule, and of any rules it combines. Used as the 'expects' of combinators, so the whole
+ * rule tree can be serialised with any issues
+ */
+export interface RuleDescription {
+    key: string;
+    expects: { [key: string]: any };
+}
+
+/**
+ * Visit the given rule and, for combinators, every rule nested within it (depth first)
+ *
+ * @param rule the rule to start from
+ * @param visitor called with each rule and the combinators it's nested in, outermost first
+ */
+export function walkRules(
+    rule: Rule<any>,
+    visitor: (rule: Rule<any>, parents: Rule<any>[]) => void,
+    parents: Rule<any>[] = []
+) {
+    visitor(rule, parents);
+    (rule.rules || []).forEach((child) => walkRules(child, visitor, [...parents, rule]));
+}
+
+function describeRules(rules: Rule<any>[]): RuleDescription[] {
+    return rules.map((rule) => ({ key: rule.key, expects: rule.expects }));
+}
+
+function combinedDependsOn(rules: Rule<any>[], extra: string[] = []): string[] | undefined {
+    const dependsOn = _.uniq(_.flatMap(rules, (rule) => rule.dependsOn || []).concat(extra));
+    return dependsOn.length > 0 ? dependsOn : undefined;
+}
+
+function passes(issues: ValidationIssue[]): boolean {
+    return !issues.some((issue) => issue.severity == "error");
+}
+
+/**
+ * Create a rule made of other rules. The expects hold the nested rules' keys and expects, and any properties the
+ * nested rules depend on are passed up
+ */
+function newCombinator<TValue>(opts: {
+    key: string;
+    errorMsgTemplate: string;
+    rules: Rule<any>[];
+    dependsOn?: string[];
+    matcher: (value: TValue | undefined | null, ctxt: ValidationContext) => boolean | string | ValidationIssue[];
+}): Rule<TValue> {
+    return newRule<TValue>({
+        key: opts.key,
+        errorMsgTemplate: opts.errorMsgTemplate,
+        expect: { rules: describeRules(opts.rules) },
+        singular: false,
+        dependsOn: combinedDependsOn(opts.rules, opts.dependsOn),
+        rules: opts.rules,
+        matcher: opts.matcher,
+    });
+}
+
 /**
  * Apply each of the passed in rules to each item in the list of values
  * @param rules
  */
 export function eachItem<T>(...rules: Array<Rule<T>>): Rule<Array<T>> {
-    return newRule<Array<T>>({
+    return newCombinator<Array<T>>({
         key: "list:all",
         errorMsgTemplate: "Expect rules to pass for each item",
-        expect: { rules: rules },
-        singular: false,
-        matcher: (values) => {
+        rules,
+        matcher: (values, ctxt) => {
             if (isNullOrUndefined(values)) {
                 return true;
             }
+            // the failed item index is reported in the issue path, not the message
+            const issues: ValidationIssue[] = [];
             for (let i = 0; i < values.length; i++) {
-                const val = values[i];
-                for (let j = 0; j < rules.length; j++) {
-                    const rule = rules[j];
-                    try {
-                        const result = rule(val);
-                        if (result != true) {
-                            return `Item ${i + 1} is invalid. ${result}`;
-                        }
-                    } catch (err) {
-                        return `Item ${i + 1} is invalid. ${err}`;
-                    }
+                issues.push(...validateAll(rules, values[i], { ...ctxt, path: [...(ctxt.path || []), i] }));
+            }
+            return issues;
+        },
+    });
+}
+
+/**
+ * Apply the rules to each item of a list or Set, or each value of a Map. Issue paths end with the item index, or
+ * the Map key
+ *
+ * @param rules the rules each item needs to pass
+ */
+export function each<T>(...rules: Array<Rule<T>>): Rule<Array<T> | Set<T> | Map<any, T>> {
+    return newCombinator<Array<T> | Set<T> | Map<any, T>>({
+        key: "each",
+        errorMsgTemplate: "Expect rules to pass for each item",
+        rules,
+        matcher: (values, ctxt) => {
+            if (isNullOrUndefined(values)) {
+                return true;
+            }
+            const issues: ValidationIssue[] = [];
+            const check = (value: T, key: string | number) =>
+                issues.push(...validateAll(rules, value, { ...ctxt, path: [...(ctxt.path || []), key] }));
+            if (values instanceof Map) {
+                values.forEach((value, key) => check(value, typeof key === "number" ? key : `${key}`));
+            } else {
+                Array.from(values).forEach(check);
+            }
+            return issues;
+        },
+    });
+}
+
+/**
+ * Expect all the rules to pass, reporting the issues of every rule which fails
+ */
+export function allOf<T>(...rules: Array<Rule<T>>): Rule<T> {
+    return newCombinator<T>({
+        key: "allOf",
+        errorMsgTemplate: "Expect all rules to pass",
+        rules,
+        matcher: (value, ctxt) => validateAll(rules, value, ctxt),
+    });
+}
+
+/**
+ * Expect at least one of the rules to pass. On failure the message lists why each rule failed
+ */
+export function anyOf<T>(...rules: Array<Rule<T>>): Rule<T> {
+    return newCombinator<T>({
+        key: "anyOf",
+        errorMsgTemplate: "Expect at least one rule to pass",
+        rules,
+        matcher: (value, ctxt) => {
+            const failures: ValidationIssue[] = [];
+            for (const rule of rules) {
+                const issues = rule.validate(value as T, ctxt);
+                if (passes(issues)) {
+                    return true;
                 }
+                failures.push(...issues.filter((issue) => issue.severity == "error"));
             }
-            return true;
+            return i18n.format(
+                "anyOf.failed",
+                { messages: failures.map((issue) => issue.message) },
+                'Expect one of: ${messages|join:"; "}'
+            );
         },
     });
 }
 
+/**
+ * Expect the rule to fail, e.g. 'not(oneOf(["admin", "root"]))'. As the nested rule has no failure message to
+ * reuse, pass a key and template to describe the inverted check. A missing value passes
+ *
+ * @param rule the rule which must fail
+ * @param opts the key (to lookup localised messages) and default message template
+ */
+export function not<T>(rule: Rule<T>, opts: { key?: string; errorMsgTemplate?: string } = {}): Rule<T> {
+    return newCombinator<T>({
+        key: opts.key || "not",
+        errorMsgTemplate: opts.errorMsgTemplate || "Expect the value to fail the '${rules[0].key}' check",
+        rules: [rule],
+        matcher: (value, ctxt) => isNullOrUndefined(value) || !passes(rule.validate(value, ctxt)),
+    });
+}
+
+/**
+ * Only apply the rule when the predicate holds, e.g. a cross field condition on 'ctxt.values'
+ *
+ * @param predicate given the value and the validation context, whether the rule applies
+ * @param rule the rule to apply
+ * @param opts names of the sibling properties the predicate reads, so the rule re-runs when they change
+ */
+export function when<T>(
+    predicate: (value: T | undefined | null, ctxt: ValidationContext) => boolean,
+    rule: Rule<T>,
+    opts: { dependsOn?: string[] } = {}
+): Rule<T> {
+    return newCombinator<T>({
+        key: "when",
+        errorMsgTemplate: "Expect the '${rules[0].key}' check to pass",
+        rules: [rule],
+        dependsOn: opts.dependsOn,
+        matcher: (value, ctxt) => !predicate(value, ctxt) || rule.validate(value as T, ctxt),
+    });
+}
+
+/**
+ * Only apply the rule when there is a value, so a missing or empty value passes. Saves each rule checking for
+ * null/undefined itself
+ */
+export function optional<T>(rule: Rule<T>): Rule<T> {
+    return newCombinator<T>({
+        key: "optional",
+        errorMsgTemplate: "Expect the '${rules[0].key}' check to pass",
+        rules: [rule],
+        matcher: (value, ctxt) => isNullOrUndefined(value) || (value as any) === "" || rule.validate(value, ctxt),
+    });
+}
+
+/**
+ * Convert to a number, giving NaN for non blank input which isn't one so it fails the comparison rather than being
+ * taken as no value
+ */
+function toNumber(value: any): number | undefined {
+    const num = converters.tryParse<number>("number", value);
+    if (num == undefined && !isBlank(value)) {
+        return NaN;
+    }
+    return num;
+}
+
 export function minVal(min: number): Rule<number | string> {
     return newRule<number | string>({
         key: "number:min",
         errorMsgTemplate: "Expect a min value of ${min}",
         expect: { min },
         singular: true,
-        valueConverter: (value: any): number | undefined => {
-            if (isNullOrUndefined(value)) {
-                return undefined;
-            }
-            if (typeof value === "number") {
-                return value;
-            }
-            return parseInt(value.toString());
-        },
+        valueConverter: toNumber,
         matcher: (value) => isNullOrUndefined(value) || value >= min,
     });
 }
@@ -322,13 +787,225 @@ export function maxVal(max: number): Rule<number | string> {
         errorMsgTemplate: "Expect a max value of ${max}",
         expect: { max },
         singular: true,
-        valueConverter: (value: any): number => {
-            if (value == undefined || typeof value === "number") {
-                return value;
+        valueConverter: toNumber,
+        matcher: (value) => isNullOrUndefined(value) || value <= max,
+    });
+}
+
+/**
+ * A date rule's value or limit. Strings are parsed as ISO 8601
+ */
+export type DateInput = Date | string | number | moment.Moment;
+
+export interface DateRuleOptions {
+    /**
+     * Compare in this time zone, as a UTC offset like '+10:00' (or in minutes). Defaults to the local time zone.
+     * Date only strings (e.g. '2020-12-31') are taken as that day in the given zone
+     */
+    utcOffset?: string | number;
+    /**
+     * Only compare down to this unit. Defaults to 'day', so the time of day is ignored
+     */
+    granularity?: moment.unitOfTime.StartOf;
+}
+
+const isoDateOnly = /^\d{4}-\d{2}-\d{2}$/;
+
+function toMoment(value: any, opts: DateRuleOptions): moment.Moment | undefined {
+    if (isNullOrUndefined(value) || value === "") {
+        return undefined;
+    }
+    const text = typeof value === "string" ? value.trim() : undefined;
+    const m = text != undefined ? moment(text, moment.ISO_8601, true) : moment(value);
+    if (!m.isValid()) {
+        return undefined;
+    }
+    if (opts.utcOffset != undefined) {
+        // keep the calendar day of date only values, move anything else into the zone
+        m.utcOffset(opts.utcOffset, text != undefined && isoDateOnly.test(text));
+    }
+    return m.startOf(opts.granularity || "day");
+}
+
+function dateExpects(opts: DateRuleOptions): { [key: string]: any } {
+    return { utcOffset: opts.utcOffset, granularity: opts.granularity || "day" };
+}
+
+function requireMoment(value: DateInput, opts: DateRuleOptions): moment.Moment {
+    const m = toMoment(value, opts);
+    if (m == undefined) {
+        throw new Error(`Invalid date '${value}', expect a Date, timestamp or ISO 8601 string`);
+    }
+    return m;
+}
+
+/**
+ * Expect a date on or after the given date. Passes if the value is not set or not a date (see isoDate)
+ *
+ * @param min the earliest allowed date
+ * @param opts the time zone and granularity to compare with
+ */
+export function dateMin(min: DateInput, opts: DateRuleOptions = {}): Rule<DateInput> {
+    const minMoment = requireMoment(min, opts);
+    return newRule<DateInput>({
+        key: "date:min",
+        errorMsgTemplate: "Expect a date on or after ${min|date}",
+        expect: { min: minMoment.format(), ...dateExpects(opts) },
+        singular: true,
+        matcher: (value) => {
+            const m = toMoment(value, opts);
+            return m == undefined || m.isSameOrAfter(minMoment);
+        },
+    });
+}
+
+/**
+ * Expect a date on or before the given date. Passes if the value is not set or not a date (see isoDate)
+ *
+ * @param max the latest allowed date
+ * @param opts the time zone and granularity to compare with
+ */
+export function dateMax(max: DateInput, opts: DateRuleOptions = {}): Rule<DateInput> {
+    const maxMoment = requireMoment(max, opts);
+    return newRule<DateInput>({
+        key: "date:max",
+        errorMsgTemplate: "Expect a date on or before ${max|date}",
+        expect: { max: maxMoment.format(), ...dateExpects(opts) },
+        singular: true,
+        matcher: (value) => {
+            const m = toMoment(value, opts);
+            return m == undefined || m.isSameOrBefore(maxMoment);
+        },
+    });
+}
+
+function relativeToNow(amount: number, unit: moment.unitOfTime.DurationConstructor, opts: DateRuleOptions) {
+    const now = moment();
+    if (opts.utcOffset != undefined) {
+        now.utcOffset(opts.utcOffset);
+    }
+    return now.add(amount, unit).startOf(opts.granularity || "day");
+}
+
+/**
+ * Expect a date at least the given time before now, checked against the current time on each validation. E.g.
+ * 'dateBefore(18, "years")' for at least 18 years ago, or 'dateBefore(0, "days")' for today or earlier
+ *
+ * @param amount how far before now
+ * @param unit the units of the amount
+ * @param opts the time zone and granularity to compare with
+ */
+export function dateBefore(
+    amount: number,
+    unit: moment.unitOfTime.DurationConstructor,
+    opts: DateRuleOptions = {}
+): Rule<DateInput> {
+    return newRule<DateInput>({
+        key: "date:before",
+        errorMsgTemplate: "Expect a date at least ${amount} ${unit} ago, on or before ${limit|date}",
+        expect: { amount, unit, ...dateExpects(opts) },
+        singular: true,
+        convertErrorArgs: (args) => ({ ...args, limit: relativeToNow(-amount, unit, opts).format() }),
+        matcher: (value) => {
+            const m = toMoment(value, opts);
+            return m == undefined || m.isSameOrBefore(relativeToNow(-amount, unit, opts));
+        },
+    });
+}
+
+/**
+ * Expect a date at least the given time after now, checked against the current time on each validation. E.g.
+ * 'dateAfter(2, "days")' for no sooner than the day after tomorrow, or 'dateAfter(0, "days")' for today or later
+ *
+ * @param amount how far after now
+ * @param unit the units of the amount
+ * @param opts the time zone and granularity to compare with
+ */
+export function dateAfter(
+    amount: number,
+    unit: moment.unitOfTime.DurationConstructor,
+    opts: DateRuleOptions = {}
+): Rule<DateInput> {
+    return newRule<DateInput>({
+        key: "date:after",
+        errorMsgTemplate: "Expect a date at least ${amount} ${unit} from now, on or after ${limit|date}",
+        expect: { amount, unit, ...dateExpects(opts) },
+        singular: true,
+        convertErrorArgs: (args) => ({ ...args, limit: relativeToNow(amount, unit, opts).format() }),
+        matcher: (value) => {
+            const m = toMoment(value, opts);
+            return m == undefined || m.isSameOrAfter(relativeToNow(amount, unit, opts));
+        },
+    });
+}
+
+/**
+ * Expect date text in ISO 8601 format, e.g. '2020-12-31' or '2020-12-31T13:45:00Z'. Values which are already
+ * dates pass
+ *
+ * @param opts if 'dateOnly' then don't allow a time
+ */
+export function isoDate(opts: { dateOnly?: boolean } = {}): Rule<DateInput> {
+    const dateOnly = opts.dateOnly == true;
+    return newRule<DateInput>({
+        key: "date:iso",
+        errorMsgTemplate: "Expect a date in the format ${format}",
+        expect: { dateOnly, format: dateOnly ? "YYYY-MM-DD" : "YYYY-MM-DD[THH:mm:ss]" },
+        singular: true,
+        matcher: (value) => {
+            if (typeof value !== "string" || value.trim().length == 0) {
+                return true;
             }
-            return parseInt(value.toString());
+            const text = value.trim();
+            return (!dateOnly || isoDateOnly.test(text)) && moment(text, moment.ISO_8601, true).isValid();
+        },
+    });
+}
+
+/**
+ * Expect a date falling on one of the given days of the week, where 0 is Sunday and 6 is Saturday
+ *
+ * @param days the allowed days
+ * @param opts the time zone to compare in
+ */
+export function dateWeekdays(days: number[], opts: DateRuleOptions = {}): Rule<DateInput> {
+    return newRule<DateInput>({
+        key: "date:weekdays",
+        errorMsgTemplate: "Expect a date on a ${dayNames|list:or}",
+        expect: { days, ...dateExpects(opts) },
+        singular: true,
+        // name the days in the current i18n locale at render time, so locale changes are picked up
+        convertErrorArgs: (args) => ({
+            ...args,
+            dayNames: days.map((day) => moment().locale(i18n.getLocale()).day(day).format("dddd")),
+        }),
+        matcher: (value) => {
+            const m = toMoment(value, opts);
+            return m == undefined || days.indexOf(m.day()) != -1;
+        },
+    });
+}
+
+/**
+ * Expect a date on a business day, i.e. Monday to Friday and not one of the given holidays
+ *
+ * @param opts the holidays to exclude, and the time zone to compare in
+ */
+export function businessDay(opts: DateRuleOptions & { holidays?: DateInput[] } = {}): Rule<DateInput> {
+    const dayOpts: DateRuleOptions = { utcOffset: opts.utcOffset, granularity: "day" };
+    const holidays = (opts.holidays || []).map((holiday) => requireMoment(holiday, dayOpts));
+    return newRule<DateInput>({
+        key: "date:businessDay",
+        errorMsgTemplate: "Expect a business day",
+        expect: { holidays: holidays.map((holiday) => holiday.format("YYYY-MM-DD")), ...dateExpects(dayOpts) },
+        singular: true,
+        matcher: (value) => {
+            const m = toMoment(value, dayOpts);
+            return (
+                m == undefined ||
+                (m.day() != 0 && m.day() != 6 && !holidays.some((holiday) => holiday.isSame(m, "day")))
+            );
         },
-        matcher: (value) => isNullOrUndefined(value) || value <= max,
     });
 }
 
@@ -345,6 +1022,128 @@ export function password(): Rule<string> {
     });
 }
 
+/**
+ * Reference to a sibling property, either by name or the property itself
+ */
+export type FieldRef = string | { readonly name: string; readonly label?: string };
+
+function fieldName(field: FieldRef): string {
+    return typeof field === "string" ? field : field.name;
+}
+
+function fieldLabel(field: FieldRef): string {
+    // read at render time, so label changes (e.g. locale) are picked up
+    return typeof field === "string" ? field : field.label || field.name;
+}
+
+function fieldValue(field: FieldRef, ctxt: ValidationContext): any {
+    return ctxt.values ? ctxt.values[fieldName(field)] : undefined;
+}
+
+function toTime(value: any): number | undefined {
+    if (isNullOrUndefined(value) || value === "") {
+        return undefined;
+    }
+    const m = moment(value);
+    return m.isValid() ? m.valueOf() : undefined;
+}
+
+/**
+ * Expect the value to equal the value of another property. E.g. 'confirm password'
+ *
+ * @param field the other property
+ */
+export function equalsField(field: FieldRef): Rule<any> {
+    return newRule({
+        key: "field:equals",
+        errorMsgTemplate: "Expect to match ${fieldLabel}",
+        expect: { field: fieldName(field) },
+        dependsOn: [fieldName(field)],
+        singular: true,
+        convertErrorArgs: (args) => ({ ...args, fieldLabel: fieldLabel(field) }),
+        matcher: (value, ctxt) => isNullOrUndefined(value) || _.isEqual(value, fieldValue(field, ctxt)),
+    });
+}
+
+/**
+ * Expect the value to differ from the value of another property. E.g. 'new password' != 'old password'
+ *
+ * @param field the other property
+ */
+export function notEqualsField(field: FieldRef): Rule<any> {
+    return newRule({
+        key: "field:notEquals",
+        errorMsgTemplate: "Expect to be different to ${fieldLabel}",
+        expect: { field: fieldName(field) },
+        dependsOn: [fieldName(field)],
+        singular: true,
+        convertErrorArgs: (args) => ({ ...args, fieldLabel: fieldLabel(field) }),
+        matcher: (value, ctxt) => isNullOrUndefined(value) || !_.isEqual(value, fieldValue(field, ctxt)),
+    });
+}
+
+/**
+ * Expect the date value to be after the date in another property. Passes if either date is not set
+ *
+ * @param field the other property
+ */
+export function dateAfterField(field: FieldRef): Rule<any> {
+    return newRule({
+        key: "field:dateAfter",
+        errorMsgTemplate: "Expect a date after ${fieldLabel}",
+        expect: { field: fieldName(field) },
+        dependsOn: [fieldName(field)],
+        singular: true,
+        convertErrorArgs: (args) => ({ ...args, fieldLabel: fieldLabel(field) }),
+        matcher: (value, ctxt) => {
+            const time = toTime(value);
+            const otherTime = toTime(fieldValue(field, ctxt));
+            return time == undefined || otherTime == undefined || time > otherTime;
+        },
+    });
+}
+
+/**
+ * Expect the date value to be before the date in another property. Passes if either date is not set
+ *
+ * @param field the other property
+ */
+export function dateBeforeField(field: FieldRef): Rule<any> {
+    return newRule({
+        key: "field:dateBefore",
+        errorMsgTemplate: "Expect a date before ${fieldLabel}",
+        expect: { field: fieldName(field) },
+        dependsOn: [fieldName(field)],
+        singular: true,
+        convertErrorArgs: (args) => ({ ...args, fieldLabel: fieldLabel(field) }),
+        matcher: (value, ctxt) => {
+            const time = toTime(value);
+            const otherTime = toTime(fieldValue(field, ctxt));
+            return time == undefined || otherTime == undefined || time < otherTime;
+        },
+    });
+}
+
+/**
+ * Require a value if another property has the given value (or passes the given predicate). E.g. 'state' is
+ * required if 'country' is 'AU'
+ *
+ * @param field the other property
+ * @param expected the value to match, or a predicate given the other property's value
+ */
+export function requiredIf(field: FieldRef, expected: any | ((otherValue: any) => boolean)): Rule<any> {
+    const matches = typeof expected === "function" ? expected : (otherValue: any) => _.isEqual(otherValue, expected);
+    return newRule({
+        key: "field:requiredIf",
+        errorMsgTemplate: "Value is required when ${fieldLabel} is ${expected|default:set}",
+        expect: { field: fieldName(field), expected: typeof expected === "function" ? undefined : expected },
+        dependsOn: [fieldName(field)],
+        singular: false,
+        convertErrorArgs: (args) => ({ ...args, fieldLabel: fieldLabel(field) }),
+        matcher: (value, ctxt) => !matches(fieldValue(field, ctxt)) || !isNullOrUndefined(value),
+    });
+}
+
 export function unknown(constraintKey: string, constraintVal: any): Rule<any> {
     rulesLog.warn("unknown constraint", constraintKey, constraintVal);
     return newRule({
@@ -0,0 +1,64 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { KeyValueStorageProvider, StorageCipher, StorageProviderOptions } from "./storage";
+
+/**
+ * Stores values in a JSON file, for Node tools and tests. The file is read once, and rewritten on every change
+ */
+export class JsonFileStorageProvider extends KeyValueStorageProvider {
+    private readonly values: { [key: string]: string };
+
+    constructor(readonly filePath: string, opts: StorageProviderOptions = {}) {
+        super(opts);
+        this.values = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, "utf8")) : {};
+    }
+
+    protected readRaw(key: string): string | undefined {
+        return this.values[key];
+    }
+
+    protected writeRaw(key: string, text: string): void {
+        this.values[key] = text;
+        this.save();
+    }
+
+    protected deleteRaw(key: string): void {
+        if (key in this.values) {
+            delete this.values[key];
+            this.save();
+        }
+    }
+
+    protected rawKeys(): string[] {
+        return Object.keys(this.values);
+    }
+
+    private save() {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+        fs.writeFileSync(this.filePath, JSON.stringify(this.values, null, 2), "utf8");
+    }
+}
+
+/**
+ * Encrypt masked values with AES-256-GCM, using a key derived from the given secret
+ *
+ * @param secret the secret to derive the key from
+ */
+export function nodeStorageCipher(secret: string): StorageCipher {
+    const key = crypto.createHash("sha256").update(secret).digest();
+    return {
+        encrypt: (text) => {
+            const iv = crypto.randomBytes(12);
+            const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+            const encrypted = Buffer.concat([cipher.update(text, "utf8"), cipher.final()]);
+            return Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString("base64");
+        },
+        decrypt: (text) => {
+            const data = Buffer.from(text, "base64");
+            const decipher = crypto.createDecipheriv("aes-256-gcm", key, data.slice(0, 12));
+            decipher.setAuthTag(data.slice(12, 28));
+            return Buffer.concat([decipher.update(data.slice(28)), decipher.final()]).toString("utf8");
+        },
+    };
+}
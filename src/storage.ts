@@ -0,0 +1,543 @@
+import { getLogger } from "./logger";
+
+const log = getLogger("storage");
+
+/**
+ * How a single value is stored
+ */
+export interface StorageValueOptions {
+    /**
+     * The value is sensitive (e.g. from a masked property), so encrypt it if the provider has a cipher
+     */
+    masked?: boolean;
+    /**
+     * Expire the value after this many milliseconds. Overrides the provider default
+     */
+    ttlMs?: number;
+}
+
+/**
+ * Where form values are remembered between sessions
+ */
+export interface StorageProvider {
+    getValue(key: string): string | undefined;
+    setValue(key: string, value: string | undefined, opts?: StorageValueOptions): void;
+    removeValue(key: string): void;
+    /**
+     * The keys of all the stored values. Optional, as older providers can't list their keys
+     */
+    keys?(): string[];
+}
+
+/**
+ * The async variant of StorageProvider, for stores like IndexedDB
+ */
+export interface AsyncStorageProvider {
+    getValue(key: string): Promise<string | undefined>;
+    setValue(key: string, value: string | undefined, opts?: StorageValueOptions): Promise<void>;
+    removeValue(key: string): Promise<void>;
+    keys(): Promise<string[]>;
+}
+
+export class NullStorageProvider implements StorageProvider {
+    getValue(): string | undefined {
+        return undefined;
+    }
+    setValue(): void {}
+    removeValue() {}
+    keys(): string[] {
+        return [];
+    }
+}
+
+/**
+ * Encrypts masked values before they are stored. See storage.node for a Node implementation, and
+ * webCryptoStorageCipher for browsers (async only)
+ */
+export interface StorageCipher {
+    encrypt(text: string): string;
+    decrypt(text: string): string;
+}
+
+/**
+ * A cipher which may work asynchronously, e.g. using the browser's WebCrypto api. Only supported by async providers
+ */
+export interface AsyncStorageCipher {
+    encrypt(text: string): string | PromiseLike<string>;
+    decrypt(text: string): string | PromiseLike<string>;
+}
+
+export interface StorageProviderOptions<TCipher = StorageCipher> {
+    /**
+     * Prefix for all keys, so several apps can share a store. E.g. 'myapp.'
+     */
+    namespace?: string;
+    /**
+     * Expire values after this many milliseconds. Defaults to never
+     */
+    ttlMs?: number;
+    /**
+     * Encrypts masked values. Without one masked values are stored as is
+     */
+    cipher?: TCipher;
+}
+
+/**
+ * A stored value, with its expiry. Values written without an envelope (e.g. by older versions) are read as is
+ */
+interface Envelope {
+    $v: string;
+    /**
+     * Expiry time, in ms since the epoch
+     */
+    exp?: number;
+    /**
+     * True if the value is encrypted
+     */
+    enc?: boolean;
+}
+
+function toEnvelope(value: string, encrypted: boolean, ttlMs: number | undefined): string {
+    const envelope: Envelope = { $v: value };
+    if (ttlMs != undefined) {
+        envelope.exp = Date.now() + ttlMs;
+    }
+    if (encrypted) {
+        envelope.enc = true;
+    }
+    return JSON.stringify(envelope);
+}
+
+function parseEnvelope(text: string): Envelope | undefined {
+    try {
+        const parsed = JSON.parse(text);
+        if (parsed && typeof parsed === "object" && typeof parsed.$v === "string") {
+            return parsed;
+        }
+    } catch (err) {
+        // not written by us
+    }
+    return undefined;
+}
+
+function fromEnvelope(text: string): Envelope {
+    return parseEnvelope(text) || { $v: text };
+}
+
+/**
+ * If the raw key holds a value written by a provider with the given namespace. Without a namespace the store may
+ * be shared with other apps (e.g. localStorage), so only values in an envelope count
+ */
+function isOwnValue(namespace: string, key: string, text: string | undefined): boolean {
+    if (key.indexOf(namespace) != 0 || text == undefined) {
+        return false;
+    }
+    return namespace.length > 0 || parseEnvelope(text) != undefined;
+}
+
+function isExpired(envelope: Envelope): boolean {
+    return envelope.exp != undefined && envelope.exp <= Date.now();
+}
+
+/**
+ * Common namespacing, expiry and encryption for providers over a simple synchronous key/value store. Keys passed
+ * to the raw methods include the namespace
+ */
+export abstract class KeyValueStorageProvider implements StorageProvider {
+    readonly namespace: string;
+    readonly ttlMs?: number;
+    private readonly cipher?: StorageCipher;
+
+    constructor(opts: StorageProviderOptions = {}) {
+        this.namespace = opts.namespace || "";
+        this.ttlMs = opts.ttlMs;
+        this.cipher = opts.cipher;
+    }
+
+    getValue(key: string): string | undefined {
+        const text = this.readRaw(this.namespace + key);
+        if (text == undefined) {
+            return undefined;
+        }
+        const envelope = fromEnvelope(text);
+        if (isExpired(envelope)) {
+            log.trace("value expired", this.namespace + key);
+            this.deleteRaw(this.namespace + key);
+            return undefined;
+        }
+        if (!envelope.enc) {
+            return envelope.$v;
+        }
+        if (!this.cipher) {
+            log.warn(`Can't read encrypted value '${this.namespace + key}', no cipher set`);
+            return undefined;
+        }
+        return this.cipher.decrypt(envelope.$v);
+    }
+
+    setValue(key: string, value: string | undefined, opts: StorageValueOptions = {}): void {
+        if (value == undefined) {
+            this.removeValue(key);
+            return;
+        }
+        const encrypt = opts.masked == true && this.cipher != undefined;
+        const stored = encrypt ? this.cipher!.encrypt(value) : value;
+        // an explicit 0 expires straight away, rather than falling back to the default
+        const ttlMs = opts.ttlMs != undefined ? opts.ttlMs : this.ttlMs;
+        this.writeRaw(this.namespace + key, toEnvelope(stored, encrypt, ttlMs));
+    }
+
+    removeValue(key: string): void {
+        this.deleteRaw(this.namespace + key);
+    }
+
+    /**
+     * The keys in this provider's namespace. Without a namespace, only the keys of values written by a provider
+     * are included, so other data in a shared store is left alone
+     */
+    keys(): string[] {
+        return this.rawKeys()
+            .filter((key) => isOwnValue(this.namespace, key, this.readRaw(key)))
+            .map((key) => key.substring(this.namespace.length));
+    }
+
+    /**
+     * Remove all the values in this provider's namespace. See 'keys'
+     */
+    clear(): void {
+        this.keys().forEach((key) => this.removeValue(key));
+    }
+
+    /**
+     * Remove any expired values in this provider's namespace. Expired values are otherwise only removed when read
+     */
+    purgeExpired(): void {
+        this.keys().forEach((key) => {
+            const text = this.readRaw(this.namespace + key);
+            if (text != undefined && isExpired(fromEnvelope(text))) {
+                this.deleteRaw(this.namespace + key);
+            }
+        });
+    }
+
+    protected abstract readRaw(key: string): string | undefined;
+    protected abstract writeRaw(key: string, text: string): void;
+    protected abstract deleteRaw(key: string): void;
+    protected abstract rawKeys(): string[];
+}
+
+/**
+ * Stores values in memory, e.g. for tests or to remember values for the current page only
+ */
+export class MemoryStorageProvider extends KeyValueStorageProvider {
+    private readonly values = new Map<string, string>();
+
+    protected readRaw(key: string): string | undefined {
+        return this.values.get(key);
+    }
+
+    protected writeRaw(key: string, text: string): void {
+        this.values.set(key, text);
+    }
+
+    protected deleteRaw(key: string): void {
+        this.values.delete(key);
+    }
+
+    protected rawKeys(): string[] {
+        return Array.from(this.values.keys());
+    }
+}
+
+function storageKeys(storage: Storage): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key != null) {
+            keys.push(key);
+        }
+    }
+    return keys;
+}
+
+/**
+ * Stores values in a browser Storage, i.e. localStorage or sessionStorage. Masked values are stored in plain text
+ * unless given a cipher, and browsers only offer async encryption (WebCrypto). To encrypt them in the browser give
+ * the form an AsyncKeyValueStorageProvider over a WebStorageStore with a webCryptoStorageCipher, see the
+ * 'asyncStorage' form option
+ */
+export class WebStorageProvider extends KeyValueStorageProvider {
+    constructor(private readonly storage: Storage, opts: StorageProviderOptions = {}) {
+        super(opts);
+    }
+
+    protected readRaw(key: string): string | undefined {
+        const text = this.storage.getItem(key);
+        return text == null ? undefined : text;
+    }
+
+    protected writeRaw(key: string, text: string): void {
+        try {
+            this.storage.setItem(key, text);
+        } catch (err) {
+            // most likely the quota is exceeded, which shouldn't break the form
+            log.warn(`Error storing value '${key}'`, err);
+        }
+    }
+
+    protected deleteRaw(key: string): void {
+        this.storage.removeItem(key);
+    }
+
+    protected rawKeys(): string[] {
+        return storageKeys(this.storage);
+    }
+}
+
+/**
+ * Remember values across browser sessions. Masked values are stored in plain text unless given a cipher, see
+ * WebStorageProvider
+ */
+export function localStorageProvider(opts: StorageProviderOptions = {}): WebStorageProvider {
+    return new WebStorageProvider(window.localStorage, opts);
+}
+
+/**
+ * Remember values until the browser tab is closed
+ */
+export function sessionStorageProvider(opts: StorageProviderOptions = {}): WebStorageProvider {
+    return new WebStorageProvider(window.sessionStorage, opts);
+}
+
+/**
+ * A simple async key/value store, which AsyncKeyValueStorageProvider adds namespacing, expiry and encryption to
+ */
+export interface AsyncKeyValueStore {
+    get(key: string): Promise<string | undefined>;
+    set(key: string, text: string): Promise<void>;
+    delete(key: string): Promise<void>;
+    keys(): Promise<string[]>;
+}
+
+/**
+ * Namespacing, expiry and encryption over an async key/value store, e.g. IndexedDbStore
+ */
+export class AsyncKeyValueStorageProvider implements AsyncStorageProvider {
+    readonly namespace: string;
+    readonly ttlMs?: number;
+    private readonly cipher?: AsyncStorageCipher;
+
+    constructor(readonly store: AsyncKeyValueStore, opts: StorageProviderOptions<AsyncStorageCipher> = {}) {
+        this.namespace = opts.namespace || "";
+        this.ttlMs = opts.ttlMs;
+        this.cipher = opts.cipher;
+    }
+
+    async getValue(key: string): Promise<string | undefined> {
+        const text = await this.store.get(this.namespace + key);
+        if (text == undefined) {
+            return undefined;
+        }
+        const envelope = fromEnvelope(text);
+        if (isExpired(envelope)) {
+            log.trace("value expired", this.namespace + key);
+            await this.store.delete(this.namespace + key);
+            return undefined;
+        }
+        if (!envelope.enc) {
+            return envelope.$v;
+        }
+        if (!this.cipher) {
+            log.warn(`Can't read encrypted value '${this.namespace + key}', no cipher set`);
+            return undefined;
+        }
+        return this.cipher.decrypt(envelope.$v);
+    }
+
+    async setValue(key: string, value: string | undefined, opts: StorageValueOptions = {}): Promise<void> {
+        if (value == undefined) {
+            return this.removeValue(key);
+        }
+        const encrypt = opts.masked == true && this.cipher != undefined;
+        const stored = encrypt ? await this.cipher!.encrypt(value) : value;
+        const ttlMs = opts.ttlMs != undefined ? opts.ttlMs : this.ttlMs;
+        await this.store.set(this.namespace + key, toEnvelope(stored, encrypt, ttlMs));
+    }
+
+    removeValue(key: string): Promise<void> {
+        return this.store.delete(this.namespace + key);
+    }
+
+    /**
+     * The keys in this provider's namespace. Without a namespace, only the keys of values written by a provider
+     * are included
+     */
+    async keys(): Promise<string[]> {
+        let keys = (await this.store.keys()).filter((key) => key.indexOf(this.namespace) == 0);
+        if (this.namespace.length == 0) {
+            const texts = await Promise.all(keys.map((key) => this.store.get(key)));
+            keys = keys.filter((key, i) => isOwnValue(this.namespace, key, texts[i]));
+        }
+        return keys.map((key) => key.substring(this.namespace.length));
+    }
+
+    /**
+     * Remove all the values in this provider's namespace. See 'keys'
+     */
+    async clear(): Promise<void> {
+        await Promise.all((await this.keys()).map((key) => this.removeValue(key)));
+    }
+}
+
+/**
+ * Stores values in an IndexedDB object store. The database and store are created on first use
+ */
+export class IndexedDbStore implements AsyncKeyValueStore {
+    private db?: Promise<IDBDatabase>;
+
+    constructor(readonly dbName = "forms", readonly storeName = "values") {}
+
+    get(key: string): Promise<string | undefined> {
+        return this.request("readonly", (store) => store.get(key)).then((value) =>
+            value == undefined ? undefined : value
+        );
+    }
+
+    set(key: string, text: string): Promise<void> {
+        return this.request("readwrite", (store) => store.put(text, key)).then(() => undefined);
+    }
+
+    delete(key: string): Promise<void> {
+        return this.request("readwrite", (store) => store.delete(key)).then(() => undefined);
+    }
+
+    keys(): Promise<string[]> {
+        return this.request("readonly", (store) => store.getAllKeys()).then((keys) => keys.map((key) => `${key}`));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = window.indexedDB.open(this.dbName, 1);
+                request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return this.db;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const request = fn(db.transaction(this.storeName, mode).objectStore(this.storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
+
+/**
+ * A browser Storage (i.e. localStorage or sessionStorage) as an async store, so masked values can be encrypted with
+ * a webCryptoStorageCipher
+ */
+export class WebStorageStore implements AsyncKeyValueStore {
+    constructor(private readonly storage: Storage) {}
+
+    async get(key: string): Promise<string | undefined> {
+        const text = this.storage.getItem(key);
+        return text == null ? undefined : text;
+    }
+
+    async set(key: string, text: string): Promise<void> {
+        this.storage.setItem(key, text);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.storage.removeItem(key);
+    }
+
+    async keys(): Promise<string[]> {
+        return storageKeys(this.storage);
+    }
+}
+
+const GCM_IV_BYTES = 12;
+const GCM_TAG_BYTES = 16;
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+    const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+    let offset = 0;
+    parts.forEach((part) => {
+        bytes.set(part, offset);
+        offset += part.length;
+    });
+    return bytes;
+}
+
+function toBase64(bytes: Uint8Array): string {
+    let binary = "";
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return window.btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array {
+    const binary = window.atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) {
+        bytes[i] = binary.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Encrypt masked values in the browser with WebCrypto AES-GCM, using a key derived from the given secret. Uses the
+ * same key derivation and layout as storage.node's nodeStorageCipher, so values can be read by either
+ *
+ * @param secret the secret to derive the key from
+ */
+export function webCryptoStorageCipher(secret: string): AsyncStorageCipher {
+    const subtle = window.crypto.subtle;
+    let key: PromiseLike<CryptoKey> | undefined;
+    const getKey = () => {
+        if (!key) {
+            key = subtle
+                .digest("SHA-256", new TextEncoder().encode(secret))
+                .then((hash) => subtle.importKey("raw", hash, "AES-GCM", false, ["encrypt", "decrypt"]));
+        }
+        return key;
+    };
+    return {
+        encrypt: async (text) => {
+            const iv = window.crypto.getRandomValues(new Uint8Array(GCM_IV_BYTES));
+            const sealed = new Uint8Array(
+                await subtle.encrypt({ name: "AES-GCM", iv }, await getKey(), new TextEncoder().encode(text))
+            );
+            // WebCrypto appends the tag, whereas the stored layout is iv|tag|data
+            const tagStart = sealed.length - GCM_TAG_BYTES;
+            return toBase64(concatBytes(iv, sealed.subarray(tagStart), sealed.subarray(0, tagStart)));
+        },
+        decrypt: async (text) => {
+            const data = fromBase64(text);
+            const iv = data.subarray(0, GCM_IV_BYTES);
+            const tag = data.subarray(GCM_IV_BYTES, GCM_IV_BYTES + GCM_TAG_BYTES);
+            const sealed = concatBytes(data.subarray(GCM_IV_BYTES + GCM_TAG_BYTES), tag);
+            const plain = await subtle.decrypt({ name: "AES-GCM", iv }, await getKey(), sealed);
+            return new TextDecoder().decode(plain);
+        },
+    };
+}
+
+/**
+ * Use a synchronous provider where an async one is expected
+ */
+export function toAsyncStorageProvider(provider: StorageProvider): AsyncStorageProvider {
+    return {
+        getValue: async (key) => provider.getValue(key),
+        setValue: async (key, value, opts) => provider.setValue(key, value, opts),
+        removeValue: async (key) => provider.removeValue(key),
+        keys: async () => (provider.keys ? provider.keys() : []),
+    };
+}
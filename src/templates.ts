@@ -0,0 +1,420 @@
+import _ from "lodash";
+import moment from "moment";
+import { AppError, AppErrorOptions } from "./errors";
+import * as events from "./events";
+
+/**
+ * Values available to a template when rendering
+ */
+export type TemplateArgs = { [key: string]: any };
+
+export interface RenderOptions {
+    /**
+     * Locale used by locale aware formatters (e.g. 'number')
+     */
+    locale?: string;
+}
+
+/**
+ * Formats a placeholder value. Formatters can be chained, e.g. '${values|quoted|join:" or "}'
+ *
+ * @param value the value to format
+ * @param args any formatter args, e.g. '${price|number:2}' passes ['2']
+ * @param opts the render options
+ */
+export type TemplateFormatter = (value: any, args: string[], opts: RenderOptions) => any;
+
+export interface CompiledTemplate {
+    /**
+     * The source template string
+     */
+    readonly source: string;
+    /**
+     * The value paths referenced by this template, e.g. '${expects.min}' gives 'expects.min'
+     */
+    readonly paths: string[];
+    /**
+     * Render this template with the given args. Missing values render as empty strings
+     */
+    (args?: TemplateArgs, opts?: RenderOptions): string;
+}
+
+/**
+ * Thrown when a template can't be compiled, or is missing required arguments
+ */
+export class TemplateError extends AppError {
+    constructor(opts: AppErrorOptions = {}, ctorFunc?: Function) {
+        super(opts, ctorFunc || TemplateError);
+    }
+}
+
+interface FormatterCall {
+    readonly name: string;
+    readonly fn: TemplateFormatter;
+    readonly args: string[];
+}
+
+type TemplatePart = string | { path: string; formatters: FormatterCall[] };
+
+const pathRegex = /^[\w$]+(?:\.[\w$]+|\[\d+\])*$/;
+
+const formatters: { [name: string]: TemplateFormatter } = {};
+const cache: { [source: string]: CompiledTemplate } = {};
+
+/**
+ * Emitted synchronously when a formatter is registered, so anything holding compiled templates (e.g. i18n) can
+ * drop them
+ */
+export const formatterRegisteredEvent = events
+    .defineEvent<{ name: string }>("templates.FormatterRegisteredEvent")
+    .withOptions({});
+
+/**
+ * Register a formatter which can be used in templates as '${value|name}' or '${value|name:arg1:arg2}'
+ *
+ * @param name the name of the formatter
+ * @param formatter the formatter function
+ */
+export function registerFormatter(name: string, formatter: TemplateFormatter) {
+    if (!/^\w+$/.test(name)) {
+        throw new TemplateError({
+            key: "TEMPLATE_INVALID_FORMATTER_NAME",
+            message: `Invalid formatter name '${name}', expect only word characters`,
+        });
+    }
+    formatters[name] = formatter;
+    // previously compiled templates may have failed to resolve this formatter, or be bound to the one replaced
+    clearCache();
+    formatterRegisteredEvent.emit({ name });
+}
+
+export function hasFormatter(name: string): boolean {
+    return formatters[name] != undefined;
+}
+
+export function clearCache() {
+    Object.keys(cache).forEach((source) => delete cache[source]);
+}
+
+/**
+ * Compile the given template, returning a cached version if previously compiled. Templates are never eval'd,
+ * placeholders can only read values via paths and apply registered formatters
+ *
+ * @param source the template source, e.g. 'Expect at least ${min} characters'
+ */
+export function compile(source: string): CompiledTemplate {
+    let template = cache[source];
+    if (!template) {
+        const parts = parse(source);
+        const paths = _.uniq(parts.filter((p) => typeof p !== "string").map((p) => (p as { path: string }).path));
+        template = <CompiledTemplate>function (args: TemplateArgs = {}, opts: RenderOptions = {}) {
+            return renderParts(parts, args, opts);
+        };
+        (template as any).source = source;
+        (template as any).paths = paths;
+        cache[source] = template;
+    }
+    return template;
+}
+
+/**
+ * Compile and render the given template
+ */
+export function render(source: string, args: TemplateArgs = {}, opts: RenderOptions = {}): string {
+    return compile(source)(args, opts);
+}
+
+/**
+ * Return the paths in the given template which can not be resolved from the given args. Only the root
+ * of each path is checked, as nested values are frequently only known at render time
+ *
+ * @param source the template source
+ * @param args the args the template will be rendered with
+ */
+export function missingArgs(source: string, args: TemplateArgs): string[] {
+    return compile(source)
+        .paths.map(rootOf)
+        .filter((root) => !_.has(args, root));
+}
+
+/**
+ * Throw a TemplateError if the template references args which won't be available
+ *
+ * @param source the template source
+ * @param args the args (or arg names) available when rendering
+ * @param context included in the error message to help locate the template
+ */
+export function validateArgs(source: string, args: TemplateArgs | string[], context?: string) {
+    const available = Array.isArray(args) ? _.zipObject(args, args) : args;
+    const missing = missingArgs(source, available);
+    if (missing.length > 0) {
+        throw new TemplateError({
+            key: "TEMPLATE_MISSING_ARGS",
+            message: `Template${context ? ` for '${context}'` : ""} references missing args [${missing.join(
+                ","
+            )}] in '${source}'`,
+            data: { source, missing, available: Object.keys(available) },
+        });
+    }
+}
+
+/**
+ * Return the first segment of a path. E.g. 'expects.min' gives 'expects', 'values[0]' gives 'values'
+ */
+export function rootOf(path: string): string {
+    const match = /^[\w$]+/.exec(path);
+    return match ? match[0] : path;
+}
+
+function renderParts(parts: TemplatePart[], args: TemplateArgs, opts: RenderOptions): string {
+    let s = "";
+    for (let i = 0; i < parts.length; i++) {
+        const part = parts[i];
+        if (typeof part === "string") {
+            s += part;
+            continue;
+        }
+        let value = _.get(args, part.path);
+        part.formatters.forEach((f) => {
+            value = f.fn(value, f.args, opts);
+        });
+        s += toText(value);
+    }
+    return s;
+}
+
+function toText(value: any): string {
+    if (value == undefined) {
+        return "";
+    }
+    if (_.isPlainObject(value)) {
+        return JSON.stringify(value);
+    }
+    return `${value}`;
+}
+
+function parse(source: string): TemplatePart[] {
+    const parts: TemplatePart[] = [];
+    let text = "";
+    let pos = 0;
+    while (pos < source.length) {
+        const c = source[pos];
+        if (c === "\\" && source[pos + 1] === "$" && source[pos + 2] === "{") {
+            // escaped placeholder, output as is
+            text += "${";
+            pos += 3;
+            continue;
+        }
+        if (c === "$" && source[pos + 1] === "{") {
+            const end = findPlaceholderEnd(source, pos + 2);
+            if (text.length > 0) {
+                parts.push(text);
+                text = "";
+            }
+            parts.push(parsePlaceholder(source, source.substring(pos + 2, end)));
+            pos = end + 1;
+            continue;
+        }
+        text += c;
+        pos++;
+    }
+    if (text.length > 0) {
+        parts.push(text);
+    }
+    return parts;
+}
+
+function findPlaceholderEnd(source: string, from: number): number {
+    let quote: string | undefined;
+    for (let i = from; i < source.length; i++) {
+        const c = source[i];
+        if (quote) {
+            if (c === quote) {
+                quote = undefined;
+            }
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === "}") {
+            return i;
+        }
+    }
+    throw new TemplateError({
+        key: "TEMPLATE_UNTERMINATED_PLACEHOLDER",
+        message: `Unterminated placeholder at position ${from - 2} in '${source}'`,
+    });
+}
+
+/**
+ * Split on the given separator, ignoring any inside quotes. Quotes are removed from the result
+ */
+function splitUnquoted(expr: string, separator: string): string[] {
+    const tokens: string[] = [];
+    let token = "";
+    let quote: string | undefined;
+    let quoted = false;
+    for (let i = 0; i < expr.length; i++) {
+        const c = expr[i];
+        if (quote) {
+            if (c === quote) {
+                quote = undefined;
+            } else {
+                token += c;
+            }
+        } else if (c === '"' || c === "'") {
+            quote = c;
+            quoted = true;
+        } else if (c === separator) {
+            tokens.push(quoted ? token : token.trim());
+            token = "";
+            quoted = false;
+        } else {
+            token += c;
+        }
+    }
+    tokens.push(quoted ? token : token.trim());
+    return tokens;
+}
+
+function parsePlaceholder(source: string, expr: string): TemplatePart {
+    const [path, ...calls] = splitPipes(expr);
+    if (!pathRegex.test(path)) {
+        throw new TemplateError({
+            key: "TEMPLATE_INVALID_PATH",
+            message: `Invalid placeholder path '${path}' in '${source}'`,
+        });
+    }
+    const formatterCalls = calls.map((call) => {
+        const [name, ...args] = splitUnquoted(call, ":");
+        const fn = formatters[name];
+        if (!fn) {
+            throw new TemplateError({
+                key: "TEMPLATE_UNKNOWN_FORMATTER",
+                message: `Unknown formatter '${name}' in '${source}'`,
+                data: { formatters: Object.keys(formatters) },
+            });
+        }
+        return { name, fn, args };
+    });
+    return { path, formatters: formatterCalls };
+}
+
+/**
+ * Split on pipes, leaving quotes in place so the formatter args can be split later
+ */
+function splitPipes(expr: string): string[] {
+    const tokens: string[] = [];
+    let token = "";
+    let quote: string | undefined;
+    for (let i = 0; i < expr.length; i++) {
+        const c = expr[i];
+        if (quote) {
+            if (c === quote) {
+                quote = undefined;
+            }
+        } else if (c === '"' || c === "'") {
+            quote = c;
+        } else if (c === "|") {
+            tokens.push(token.trim());
+            token = "";
+            continue;
+        }
+        token += c;
+    }
+    tokens.push(token.trim());
+    return tokens;
+}
+
+/**
+ * Convert the given bytes into a display size and units. E.g. 1500 -> { units: 'kB', sizeInUnits: '1.50' }
+ */
+export function toUnitsSize(bytes: number) {
+    let units = " bytes";
+    let sizeInUnits = bytes;
+    if (bytes >= 1e9) {
+        units = "gB";
+        sizeInUnits = bytes / 1e9;
+    } else if (bytes >= 1e6) {
+        units = "mB";
+        sizeInUnits = bytes / 1e6;
+    } else if (bytes >= 1e3) {
+        units = "kB";
+        sizeInUnits = bytes / 1e3;
+    }
+
+    return { units, sizeInUnits: sizeInUnits.toPrecision(3) };
+}
+
+function isCollection(value: any): value is any[] | Set<any> | Map<any, any> {
+    return Array.isArray(value) || value instanceof Set || value instanceof Map;
+}
+
+function toArray(value: any): any[] {
+    if (value == undefined) {
+        return [];
+    }
+    if (Array.isArray(value)) {
+        return value;
+    }
+    if (isCollection(value)) {
+        return Array.from(value.values());
+    }
+    return [value];
+}
+
+registerFormatter("number", (value, args, opts) => {
+    if (value == undefined || value === "") {
+        return value;
+    }
+    const num = Number(value);
+    if (isNaN(num)) {
+        return value;
+    }
+    const digits = args.length > 0 ? parseInt(args[0]) : undefined;
+    return num.toLocaleString(opts.locale, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits == undefined ? 20 : digits,
+    });
+});
+registerFormatter("date", (value, args, opts) => {
+    // '${min|date}' or '${min|date:"D MMM YYYY"}'
+    if (value == undefined || value === "") {
+        return value;
+    }
+    // keep the offset of zoned text, so limits render in the zone they were compared in
+    const m = typeof value === "string" ? moment.parseZone(value, moment.ISO_8601) : moment(value);
+    if (!m.isValid()) {
+        return value;
+    }
+    return (opts.locale ? m.locale(opts.locale) : m).format(args.length > 0 ? args[0] : "YYYY-MM-DD");
+});
+registerFormatter("fileSize", (value) => {
+    if (value == undefined) {
+        return value;
+    }
+    const size = toUnitsSize(Number(value));
+    return `${size.sizeInUnits}${size.units}`;
+});
+registerFormatter("quoted", (value, args) => {
+    const quote = args.length > 0 ? args[0] : "'";
+    if (isCollection(value)) {
+        return toArray(value).map((v) => `${quote}${toText(v)}${quote}`);
+    }
+    return value == undefined ? value : `${quote}${toText(value)}${quote}`;
+});
+registerFormatter("join", (value, args) => {
+    const separator = args.length > 0 ? args[0] : ", ";
+    return toArray(value).map(toText).join(separator);
+});
+registerFormatter("list", (value, args) => {
+    // 'a, b and c'
+    const items = toArray(value).map(toText);
+    const conjunction = args.length > 0 ? args[0] : "and";
+    if (items.length <= 1) {
+        return items.join("");
+    }
+    return `${items.slice(0, -1).join(", ")} ${conjunction} ${items[items.length - 1]}`;
+});
+registerFormatter("upper", (value) => (value == undefined ? value : toText(value).toUpperCase()));
+registerFormatter("lower", (value) => (value == undefined ? value : toText(value).toLowerCase()));
+registerFormatter("default", (value, args) => (value == undefined || value === "" ? args[0] : value));
+registerFormatter("json", (value) => JSON.stringify(value));
@@ -1,3 +1,5 @@
+import { CsvCellError, CsvRow } from "./csv";
+
 export interface Link<TTarget, TTargetId> {
     value?: TTarget;
     readonly id: TTargetId;
@@ -45,10 +47,25 @@ export interface FileInfo {
 export interface FileOf<TContent = any> extends FileInfo, File {}
 
 export interface TextFile extends FileOf<string> {
-    //content: string;
+    /**
+     * The file content, once loaded (see files.loadTextFile)
+     */
+    content?: string;
 }
 export class TextFile {}
 export interface CsvTextFile extends TextFile {
     type: "text/csv";
+    /**
+     * The header text, once parsed (see files.loadCsvFile)
+     */
+    headers?: string[];
+    /**
+     * The typed rows keyed by column name, once parsed
+     */
+    rows?: CsvRow[];
+    /**
+     * Cells which couldn't be converted to their column type
+     */
+    csvErrors?: CsvCellError[];
 }
 export class CsvTextFile {}
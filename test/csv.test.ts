@@ -0,0 +1,108 @@
+import { parseCsv } from "../src/csv";
+import { FileContentReader, setFileContentReader } from "../src/files";
+import { PropertiesForm } from "../src/forms";
+import * as rules from "../src/rules";
+import { FileInfo } from "../src/types";
+
+/**
+ * Serves file content from memory, keyed by file name
+ */
+class MemoryFileContentReader implements FileContentReader {
+    constructor(private readonly contents: { [name: string]: string }) {}
+
+    async readText(file: FileInfo): Promise<string> {
+        return this.contents[file.name];
+    }
+
+    async readBytes(file: FileInfo): Promise<Uint8Array> {
+        return new TextEncoder().encode(this.contents[file.name]);
+    }
+}
+
+function csvFile(name: string): FileInfo {
+    return {
+        name,
+        type: "text/csv",
+        size: 0,
+        contentEncoding: "",
+        lastModified: 0,
+        lastModifiedDate: "",
+    };
+}
+
+describe("parseCsv", () => {
+    it("parses quoted cells and converts typed columns", () => {
+        const result = parseCsv('name,qty\n"Smith, J",2\n"say ""hi""",x\n', {
+            columns: { qty: { name: "quantity", type: "number" } },
+        });
+
+        expect(result.headers).toEqual(["name", "qty"]);
+        expect(result.columns).toEqual(["name", "quantity"]);
+        expect(result.rows[0]).toEqual({ name: "Smith, J", quantity: 2 });
+        expect(result.rows[1]).toEqual({ name: 'say "hi"', quantity: "x" });
+        expect(result.errors.map((err) => [err.row, err.column, err.actual])).toEqual([[1, "quantity", "x"]]);
+    });
+});
+
+describe("file:text:csv properties", () => {
+    afterEach(() => setFileContentReader());
+
+    function importForm(): PropertiesForm {
+        const form = new PropertiesForm({ title: "Import", formName: "import" });
+        form.newProperty({
+            name: "upload",
+            type: "file:text:csv",
+            csv: { columns: { qty: { type: "number" } } },
+            rules: [rules.csvColumnRequired("name"), rules.csvMaxRows(5)],
+        });
+        return form;
+    }
+
+    it("reports the content rule issues and unconvertible cells once loaded", async () => {
+        setFileContentReader(new MemoryFileContentReader({ "items.csv": "name,qty\napple,1\n,2\npear,lots\n" }));
+        const form = importForm();
+        const upload = form.$property("upload")!;
+
+        upload.value = csvFile("items.csv");
+        expect(upload.pending).toBe(true);
+        await form.$settle();
+
+        expect(upload.issues.map((issue) => [issue.key, issue.path])).toEqual([
+            ["csv:columnRequired", ["upload", "rows", 1, "name"]],
+            ["csv:cellType", ["upload", "rows", 2, "qty"]],
+        ]);
+        expect(upload.value.rows.length).toBe(3);
+        expect(form.$valid).toBe(false);
+    });
+
+    it("is valid once a clean file replaces a bad one", async () => {
+        setFileContentReader(
+            new MemoryFileContentReader({ "bad.csv": "name,qty\npear,lots\n", "good.csv": "name,qty\npear,3\n" })
+        );
+        const form = importForm();
+        const upload = form.$property("upload")!;
+
+        upload.value = csvFile("bad.csv");
+        await form.$settle();
+        expect(upload.issues.map((issue) => issue.key)).toEqual(["csv:cellType"]);
+
+        upload.value = csvFile("good.csv");
+        await form.$settle();
+        expect(upload.issues).toEqual([]);
+        expect(form.$validate().valid).toBe(true);
+    });
+
+    it("reports files which can't be read", async () => {
+        setFileContentReader({
+            readText: () => Promise.reject(new Error("gone")),
+            readBytes: () => Promise.reject(new Error("gone")),
+        });
+        const form = importForm();
+        const upload = form.$property("upload")!;
+
+        upload.value = csvFile("items.csv");
+        await form.$settle();
+
+        expect(upload.issues.map((issue) => [issue.key, issue.actual])).toEqual([["file:unreadable", "gone"]]);
+    });
+});
@@ -0,0 +1,32 @@
+import { FormArray } from "../src/forms";
+import { formFromJsonSchema, formToJsonSchema } from "../src/forms.schema";
+
+describe("formFromJsonSchema", () => {
+    const schema = {
+        type: "object",
+        title: "Order",
+        required: ["lines"],
+        properties: {
+            lines: { type: "array", items: { type: "object", properties: { sku: { type: "string" } } } },
+            notes: { type: "array", minItems: 2, items: { type: "object", properties: { text: { type: "string" } } } },
+        },
+    };
+
+    it("needs at least one row in a required array", () => {
+        const form = formFromJsonSchema(schema as any, { formName: "order" });
+        const lines = form.$property("lines") as FormArray;
+
+        expect(lines.minItems).toBe(1);
+        expect(form.$validate().properties.lines.map((issue) => issue.key)).toEqual(["list:minItems"]);
+
+        lines.add();
+        expect(form.$validate().properties.lines).toEqual([]);
+    });
+
+    it("keeps the minItems of an optional array", () => {
+        const form = formFromJsonSchema(schema as any, { formName: "order" });
+
+        expect((form.$property("notes") as FormArray).minItems).toBe(2);
+        expect(formToJsonSchema(form).properties!.lines.minItems).toBe(1);
+    });
+});
@@ -0,0 +1,276 @@
+import { Command, CqrsApi } from "../src/cqrs";
+import { PropertiesForm } from "../src/forms";
+import * as rules from "../src/rules";
+import { AsyncKeyValueStorageProvider, AsyncKeyValueStore, MemoryStorageProvider } from "../src/storage";
+
+function signupForm(): PropertiesForm {
+    const matching = rules.newRule<{ [name: string]: any }>({
+        key: "passwords:match",
+        errorMsgTemplate: "Expect the passwords to match",
+        singular: true,
+        matcher: (values) => values == undefined || values.password == values.confirm,
+    });
+    const form = new PropertiesForm({ title: "Signup", formName: "signup", rules: [matching] });
+    form.newProperty({ name: "name", rules: [rules.required(), rules.maxLength(5)] });
+    form.newProperty({ name: "password" });
+    form.newProperty({ name: "confirm" });
+    const address = new PropertiesForm({ title: "Address", formName: "address" });
+    address.newProperty({ name: "street", rules: [rules.required()] });
+    form.addSubForm(address);
+    return form;
+}
+
+describe("PropertiesForm.$validate", () => {
+    it("reports property, form and sub form issues", () => {
+        const form = signupForm();
+        form.$property("password")!.value = "a";
+        form.$property("confirm")!.value = "b";
+
+        const result = form.$validate();
+
+        expect(result.valid).toBe(false);
+        expect(result.pending).toBe(false);
+        expect(result.properties.name.map((issue) => issue.key)).toEqual(["required"]);
+        expect(result.formIssues.map((issue) => issue.key)).toEqual(["passwords:match"]);
+        expect(result.subForms[0].properties.street.map((issue) => issue.key)).toEqual(["required"]);
+        expect(form.$valid).toBe(false);
+    });
+
+    it("is valid once every issue is fixed", () => {
+        const form = signupForm();
+        form.$property("name")!.value = "bob";
+        form.$subForms[0].$property("street")!.value = "1 Main St";
+
+        expect(form.$validate().valid).toBe(true);
+        expect(form.$valid).toBe(true);
+    });
+
+    it("only populates error messages when showing validation errors", () => {
+        const form = signupForm();
+        const name = form.$property("name")!;
+
+        form.$validate();
+        expect(name.errors).toEqual([]);
+        expect(name.issues.length).toBe(1);
+
+        form.$setShowValidationErrors(true);
+        expect(name.errors.length).toBe(1);
+    });
+
+    it("skips invisible properties", () => {
+        const form = signupForm();
+        form.$property("name")!.visible = false;
+        form.$subForms[0].$property("street")!.value = "1 Main St";
+
+        expect(form.$validate().properties.name).toEqual([]);
+        expect(form.$valid).toBe(true);
+    });
+});
+
+describe("PropertiesForm.$snapshot", () => {
+    function loginsForm(): PropertiesForm {
+        const template = new PropertiesForm({ title: "Login", formName: "login" });
+        template.newProperty({ name: "user" });
+        template.newProperty({ name: "pw", masked: true, rules: [rules.minLength(8)] });
+        const form = new PropertiesForm({ title: "Account", formName: "account" });
+        form.newFormArray({ name: "logins", template, default: [{ user: "bob", pw: "secret" }] });
+        return form;
+    }
+
+    it("leaves out masked values in array rows", () => {
+        const form = loginsForm();
+        expect(form.$validate().valid).toBe(false);
+
+        const snapshot = form.$snapshot();
+
+        expect(JSON.stringify(snapshot)).not.toContain("secret");
+        expect(snapshot.properties.logins.issues.map((issue) => issue.path)).toEqual([["logins", 0, "pw"]]);
+        expect(JSON.stringify(form.$snapshot({ includeMasked: true }))).toContain("secret");
+    });
+
+    it("restores the unmasked row values", () => {
+        const snapshot = JSON.parse(JSON.stringify(loginsForm().$snapshot()));
+        const form = loginsForm();
+        form.$property("logins")!.value = [];
+
+        form.$restore(snapshot);
+
+        expect(form.$values().logins).toEqual([{ user: "bob", pw: undefined }]);
+    });
+
+    it("restores masked values when included", () => {
+        const snapshot = JSON.parse(JSON.stringify(loginsForm().$snapshot({ includeMasked: true })));
+        const form = loginsForm();
+        form.$property("logins")!.value = [];
+
+        form.$restore(snapshot);
+
+        expect(form.$values().logins).toEqual([{ user: "bob", pw: "secret" }]);
+    });
+});
+
+describe("remembered properties", () => {
+    it("keep their default when nothing is stored", () => {
+        const form = new PropertiesForm({ title: "Prefs", formName: "prefs", storage: new MemoryStorageProvider() });
+        const theme = form.newProperty({ name: "theme", default: "dark", remember: true });
+
+        expect(theme.value).toBe("dark");
+    });
+
+    it("load the stored value over the default", () => {
+        const storage = new MemoryStorageProvider();
+        const form = new PropertiesForm({ title: "Prefs", formName: "prefs", storage });
+        const theme = form.newProperty({ name: "theme", default: "dark", remember: true });
+        theme.value = "light";
+        form.$submit();
+
+        const reloaded = new PropertiesForm({ title: "Prefs", formName: "prefs", storage });
+        expect(reloaded.newProperty({ name: "theme", default: "dark", remember: true }).value).toBe("light");
+    });
+});
+
+describe("remembered properties with async storage", () => {
+    class MapStore implements AsyncKeyValueStore {
+        readonly values = new Map<string, string>();
+
+        async get(key: string): Promise<string | undefined> {
+            return this.values.get(key);
+        }
+
+        async set(key: string, text: string): Promise<void> {
+            this.values.set(key, text);
+        }
+
+        async delete(key: string): Promise<void> {
+            this.values.delete(key);
+        }
+
+        async keys(): Promise<string[]> {
+            return Array.from(this.values.keys());
+        }
+    }
+
+    // stands in for webCryptoStorageCipher, which needs a browser
+    const reverse = (text: string) => text.split("").reverse().join("");
+    const cipher = { encrypt: async (text: string) => reverse(text), decrypt: async (text: string) => reverse(text) };
+
+    function loginForm(store: MapStore): PropertiesForm {
+        const asyncStorage = new AsyncKeyValueStorageProvider(store, { namespace: "app.", cipher });
+        const form = new PropertiesForm({ title: "Login", formName: "login", asyncStorage });
+        form.newProperty({ name: "user", default: "guest", remember: true });
+        form.newProperty({ name: "pin", remember: true, masked: true });
+        return form;
+    }
+
+    it("saves on submit, encrypting masked values, and loads in the background", async () => {
+        const store = new MapStore();
+        const form = loginForm(store);
+        await form.$settle();
+        form.$property("user")!.value = "bob";
+        form.$property("pin")!.value = "1234";
+        form.$submit();
+        await form.$saved();
+
+        expect(Array.from(store.values.values()).join()).not.toContain("1234");
+
+        const reloaded = loginForm(store);
+        expect(reloaded.$pending).toBe(true);
+        await reloaded.$settle();
+        expect(reloaded.$pending).toBe(false);
+        expect(reloaded.$values()).toEqual({ user: "bob", pin: "1234" });
+        expect(reloaded.$property("user")!.dirty).toBe(false);
+    });
+
+    it("keeps a value changed while loading", async () => {
+        const store = new MapStore();
+        const form = loginForm(store);
+        form.$property("user")!.value = "bob";
+        form.$submit();
+        await form.$saved();
+
+        const reloaded = loginForm(store);
+        reloaded.$property("user")!.value = "alice";
+        await reloaded.$settle();
+
+        expect(reloaded.$property("user")!.value).toBe("alice");
+    });
+
+    it("clears the remembered values", async () => {
+        const store = new MapStore();
+        const form = loginForm(store);
+        form.$property("user")!.value = "bob";
+        form.$submit();
+        await form.$saved();
+
+        await form.$clearRemembered();
+
+        expect(store.values.size).toBe(0);
+    });
+});
+
+describe("PropertiesForm.$submitCommand", () => {
+    const submitOpts = (command: jest.Mock) => ({
+        api: ({ command } as any) as CqrsApi,
+        toCommand: (payload: any) => ({ messageName: "signup", payload } as Command<any>),
+    });
+
+    function validSignupForm(): PropertiesForm {
+        const form = signupForm();
+        form.$property("name")!.value = "bob";
+        form.$subForms[0].$property("street")!.value = "1 Main St";
+        return form;
+    }
+
+    it("sends the form values once valid", async () => {
+        const command = jest.fn().mockResolvedValue({ correlationId: "1" });
+        const form = validSignupForm();
+
+        expect(await form.$submitCommand(submitOpts(command))).toEqual({ correlationId: "1" });
+        expect(command.mock.calls[0][0].payload.name).toBe("bob");
+        expect(form.$submitState).toBe("submitted");
+    });
+
+    it("doesn't send an invalid form", async () => {
+        const command = jest.fn();
+        const form = signupForm();
+
+        expect(await form.$submitCommand(submitOpts(command))).toBeUndefined();
+        expect(command).not.toHaveBeenCalled();
+        expect(form.$submitState).toBe("invalid");
+    });
+
+    it("fails if validation throws", async () => {
+        const command = jest.fn();
+        const form = validSignupForm();
+        const broken = new Error("broken validation");
+        jest.spyOn(form, "$validateAsync").mockRejectedValue(broken);
+
+        await expect(form.$submitCommand(submitOpts(command))).rejects.toBe(broken);
+        expect(command).not.toHaveBeenCalled();
+        expect(form.$submitState).toBe("failed");
+        expect(form.$submitError).toBe(broken);
+    });
+});
+
+describe("FormHistory", () => {
+    it("skips changes to properties which are no longer editable, keeping them for later", () => {
+        const form = new PropertiesForm({ title: "Profile", formName: "profile" });
+        const first = form.newProperty({ name: "first" });
+        const last = form.newProperty({ name: "last" });
+        first.value = "bob";
+        last.value = "smith";
+        last.readonly = true;
+
+        expect(form.$history.undo()).toBe(true);
+        expect(form.$values()).toEqual({ first: undefined, last: "smith" });
+        expect(form.$history.canUndo).toBe(false);
+        expect(form.$history.entries.map((entry) => entry.property)).toEqual([last]);
+
+        last.readonly = false;
+        expect(form.$history.undo()).toBe(true);
+        expect(last.value).toBeUndefined();
+
+        expect(form.$history.redo()).toBe(true);
+        expect(form.$values()).toEqual({ first: undefined, last: "smith" });
+    });
+});
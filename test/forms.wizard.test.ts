@@ -0,0 +1,50 @@
+import { PropertiesForm } from "../src/forms";
+import { FormWizard } from "../src/forms.wizard";
+
+function stepForm(formName: string, ...names: string[]): PropertiesForm {
+    const form = new PropertiesForm({ title: formName, formName });
+    names.forEach((name) => form.newProperty({ name }));
+    return form;
+}
+
+describe("FormWizard", () => {
+    function accountWizard() {
+        const account = stepForm("account", "kind");
+        const business = stepForm("business", "vatNumber");
+        const vat = stepForm("vat", "country");
+        const onSubmit = jest.fn().mockReturnValue("done");
+        const wizard = new FormWizard({
+            name: "signup",
+            steps: [
+                account,
+                { form: business, when: (values) => values.account.kind == "business" },
+                { form: vat, when: (values) => values.business != undefined && values.business.vatNumber != undefined },
+            ],
+            onSubmit,
+        });
+        return { wizard, account, business, onSubmit };
+    }
+
+    it("only gives conditions the values of the earlier active steps", async () => {
+        const { wizard, account, business } = accountWizard();
+        account.$property("kind")!.value = "business";
+        expect(await wizard.next()).toBe(true);
+        business.$property("vatNumber")!.value = "GB1";
+        expect(wizard.progress).toEqual({ step: 2, count: 3 });
+
+        // the business step is now skipped, so its leftover value no longer activates the vat step
+        account.$property("kind")!.value = "personal";
+
+        expect(wizard.activeSteps.map((step) => step.form.$formName)).toEqual(["account"]);
+        expect(wizard.values()).toEqual({ account: { kind: "personal" } });
+    });
+
+    it("submits the values of the active steps", async () => {
+        const { wizard, account, onSubmit } = accountWizard();
+        account.$property("kind")!.value = "personal";
+
+        expect(await wizard.finish()).toBe("done");
+        expect(onSubmit.mock.calls[0][0]).toEqual({ account: { kind: "personal" } });
+        expect(wizard.submitState).toBe("submitted");
+    });
+});
@@ -0,0 +1,185 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { JsonFileStorageProvider, nodeStorageCipher } from "../src/storage.node";
+import {
+    AsyncKeyValueStorageProvider,
+    MemoryStorageProvider,
+    WebStorageProvider,
+    WebStorageStore,
+    webCryptoStorageCipher,
+} from "../src/storage";
+
+/**
+ * A browser Storage (e.g. localStorage) in memory
+ */
+class MemoryStorage implements Storage {
+    private readonly items = new Map<string, string>();
+
+    get length(): number {
+        return this.items.size;
+    }
+
+    key(index: number): string | null {
+        const keys = Array.from(this.items.keys());
+        return index < keys.length ? keys[index] : null;
+    }
+
+    getItem(key: string): string | null {
+        const value = this.items.get(key);
+        return value == undefined ? null : value;
+    }
+
+    setItem(key: string, value: string) {
+        this.items.set(key, value);
+    }
+
+    removeItem(key: string) {
+        this.items.delete(key);
+    }
+
+    clear() {
+        this.items.clear();
+    }
+}
+
+describe("storage expiry", () => {
+    let now: number;
+
+    beforeEach(() => {
+        now = 1000;
+        jest.spyOn(Date, "now").mockImplementation(() => now);
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it("expires values after the provider ttl", () => {
+        const storage = new MemoryStorage();
+        const provider = new WebStorageProvider(storage, { ttlMs: 100 });
+        provider.setValue("a", "1");
+
+        now += 99;
+        expect(provider.getValue("a")).toBe("1");
+        now += 1;
+        expect(provider.getValue("a")).toBeUndefined();
+        expect(storage.length).toBe(0);
+    });
+
+    it("uses the value ttl over the provider one, including 0", () => {
+        const provider = new MemoryStorageProvider({ ttlMs: 100 });
+        provider.setValue("long", "1", { ttlMs: 500 });
+        provider.setValue("none", "2", { ttlMs: 0 });
+
+        expect(provider.getValue("none")).toBeUndefined();
+        now += 200;
+        expect(provider.getValue("long")).toBe("1");
+    });
+
+    it("purges expired values without reading them", () => {
+        const storage = new MemoryStorage();
+        const provider = new WebStorageProvider(storage, { namespace: "app." });
+        provider.setValue("short", "1", { ttlMs: 10 });
+        provider.setValue("forever", "2");
+
+        now += 10;
+        provider.purgeExpired();
+
+        expect(provider.keys()).toEqual(["forever"]);
+    });
+
+    it("expires values in async providers", async () => {
+        const provider = new AsyncKeyValueStorageProvider(new WebStorageStore(new MemoryStorage()), { ttlMs: 100 });
+        await provider.setValue("a", "1");
+
+        now += 100;
+        expect(await provider.getValue("a")).toBeUndefined();
+        expect(await provider.keys()).toEqual([]);
+    });
+});
+
+describe("storage namespaces", () => {
+    it("keep providers sharing a store apart", () => {
+        const storage = new MemoryStorage();
+        const app = new WebStorageProvider(storage, { namespace: "app." });
+        const other = new WebStorageProvider(storage, { namespace: "other." });
+        app.setValue("a", "1");
+        other.setValue("a", "2");
+
+        expect(app.getValue("a")).toBe("1");
+        expect(app.keys()).toEqual(["a"]);
+
+        app.clear();
+        expect(app.getValue("a")).toBeUndefined();
+        expect(other.getValue("a")).toBe("2");
+    });
+
+    it("only include values written by a provider without a namespace", async () => {
+        const storage = new MemoryStorage();
+        storage.setItem("unrelated", "keep me");
+        const provider = new WebStorageProvider(storage);
+        const asyncProvider = new AsyncKeyValueStorageProvider(new WebStorageStore(storage));
+        provider.setValue("a", "1");
+
+        expect(provider.keys()).toEqual(["a"]);
+        expect(await asyncProvider.keys()).toEqual(["a"]);
+
+        await asyncProvider.clear();
+        expect(storage.getItem("unrelated")).toBe("keep me");
+        expect(provider.keys()).toEqual([]);
+    });
+});
+
+describe("storage ciphers", () => {
+    it("encrypt masked values only", () => {
+        const storage = new MemoryStorage();
+        const provider = new WebStorageProvider(storage, { cipher: nodeStorageCipher("secret") });
+        provider.setValue("pin", "1234", { masked: true });
+        provider.setValue("user", "bob");
+
+        expect(storage.getItem("pin")).not.toContain("1234");
+        expect(storage.getItem("user")).toContain("bob");
+        expect(provider.getValue("pin")).toBe("1234");
+        expect(new WebStorageProvider(storage).getValue("pin")).toBeUndefined();
+    });
+
+    it("read values encrypted by the other platform", async () => {
+        (global as any).window = {
+            // missing from the node typings in use
+            crypto: (crypto as any).webcrypto,
+            btoa: (binary: string) => Buffer.from(binary, "binary").toString("base64"),
+            atob: (base64: string) => Buffer.from(base64, "base64").toString("binary"),
+        };
+        try {
+            const storage = new MemoryStorage();
+            const node = new WebStorageProvider(storage, { cipher: nodeStorageCipher("secret") });
+            const web = new AsyncKeyValueStorageProvider(new WebStorageStore(storage), {
+                cipher: webCryptoStorageCipher("secret"),
+            });
+            node.setValue("a", "from node", { masked: true });
+            await web.setValue("b", "from web", { masked: true });
+
+            expect(await web.getValue("a")).toBe("from node");
+            expect(node.getValue("b")).toBe("from web");
+        } finally {
+            delete (global as any).window;
+        }
+    });
+
+    it("persist to a json file", () => {
+        const dir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-"));
+        const filePath = path.join(dir, "values.json");
+        try {
+            const cipher = nodeStorageCipher("secret");
+            new JsonFileStorageProvider(filePath, { namespace: "app.", cipher }).setValue("pin", "1234", {
+                masked: true,
+            });
+
+            expect(fs.readFileSync(filePath, "utf8")).not.toContain("1234");
+            expect(new JsonFileStorageProvider(filePath, { namespace: "app.", cipher }).getValue("pin")).toBe("1234");
+        } finally {
+            fs.unlinkSync(filePath);
+            fs.rmdirSync(dir);
+        }
+    });
+});
@@ -0,0 +1,12 @@
+import { render } from "../src/templates";
+
+describe("template formatters", () => {
+    it("quote each item of any collection", () => {
+        const template = '${values|quoted|join:" or "}';
+
+        expect(render(template, { values: ["a", "b"] })).toBe("'a' or 'b'");
+        expect(render(template, { values: new Set(["a", "b"]) })).toBe("'a' or 'b'");
+        expect(render(template, { values: new Map([[1, "a"]]) })).toBe("'a'");
+        expect(render("${value|quoted}", { value: "a" })).toBe("'a'");
+    });
+});